@@ -65,17 +65,20 @@ function App() {
   const sizeRef = useRef(INITIAL_SIZE);
 
   const allIcons = useMemo(() => {
-    return Object.entries(Icons)
-      .filter(([name]) => name !== "createIcon" && name !== "IconProps")
-      .map(([name, Component]) => ({
-        name,
-        Component: Component as React.ComponentType<Icons.IconProps>,
-        category: name.includes("Flag")
-          ? "Flags"
-          : name.includes("Counter")
-            ? "Counters"
-            : "UI",
-      }));
+    const components = Icons as unknown as Record<
+      string,
+      React.ComponentType<Icons.IconProps>
+    >;
+    return Icons.iconManifest.map((entry) => ({
+      name: entry.componentName,
+      Component: components[entry.componentName],
+      colorMode: entry.colorMode,
+      category: entry.slug.includes("flag")
+        ? "Flags"
+        : entry.slug.includes("counter")
+          ? "Counters"
+          : "UI",
+    }));
   }, []);
 
   const filteredIcons = useMemo(() => {
@@ -129,11 +132,13 @@ function App() {
         const dirHandle = await (window as any).showDirectoryPicker();
 
         let count = 0;
-        for (const { name, Component } of targetIcons) {
+        for (const { name, Component, colorMode } of targetIcons) {
           const svgString = ReactDOMServer.renderToStaticMarkup(
             <Component
               size={sizeRef.current}
-              color={name.includes("Flag") ? undefined : colorRef.current}
+              color={
+                colorMode === "multicolor" ? undefined : colorRef.current
+              }
             />,
           );
 
@@ -150,11 +155,13 @@ function App() {
       } else {
         const zip = new JSZip();
 
-        targetIcons.forEach(({ name, Component }) => {
+        targetIcons.forEach(({ name, Component, colorMode }) => {
           const svgString = ReactDOMServer.renderToStaticMarkup(
             <Component
               size={sizeRef.current}
-              color={name.includes("Flag") ? undefined : colorRef.current}
+              color={
+                colorMode === "multicolor" ? undefined : colorRef.current
+              }
             />,
           );
           zip.file(`${name}.svg`, svgString);
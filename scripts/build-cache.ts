@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import prettier from "prettier";
+import { VERSION as SVGO_VERSION } from "svgo";
+import { fileURLToPath } from "url";
+import { ProcessedIcon, processIcon } from "./icon-pipeline.js";
+
+/**
+ * Content-hash cache for buildIcons: SVGs whose name and content did not
+ * change reuse their processed result, and generated files whose code did not
+ * change are neither formatted nor rewritten (so dev servers only reload what
+ * changed). The cache is dropped whenever the pipeline code, SVGO or Prettier
+ * changes.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const CACHE_DIR = path.resolve("node_modules/.cache/infotravel-icons");
+
+/** Sources whose changes invalidate every processed icon */
+const PIPELINE_SOURCES = ["icon-pipeline.ts", "icon-colors.ts"];
+
+interface GeneratedFile {
+  /** Hash of the unformatted code */
+  input: string;
+  /** Hash of the file as written */
+  output: string;
+}
+
+interface CacheData {
+  version: string;
+  /** Processed icons by hash of file name and content */
+  icons: Record<string, ProcessedIcon>;
+  /** Generated files by absolute path */
+  files: Record<string, GeneratedFile>;
+}
+
+export interface BuildCache {
+  /** Load every SVG in the icon folder, processing only new or changed files */
+  loadIcons(): ProcessedIcon[];
+  /**
+   * Write `code` to `file` through `format`, unless the file was already
+   * generated from the same code and has not been edited since.
+   * Returns whether the file was written.
+   */
+  writeFile(
+    file: string,
+    code: string,
+    format: (code: string) => Promise<string>,
+  ): Promise<boolean>;
+  /** Icons processed (not reused) by the last loadIcons call */
+  readonly processed: number;
+  /**
+   * Persist the cache, keeping only the icons of this build and the generated
+   * files that still exist
+   */
+  save(): void;
+}
+
+function hash(...parts: string[]): string {
+  const digest = crypto.createHash("sha1");
+  for (const part of parts) digest.update(part).update("\0");
+  return digest.digest("hex");
+}
+
+function cacheVersion(): string {
+  // In the published build the pipeline is bundled into this very file
+  const files = PIPELINE_SOURCES.map((file) => path.join(__dirname, file));
+  const sources = (files.every(fs.existsSync) ? files : [__filename]).map(
+    (file) => fs.readFileSync(file, "utf-8"),
+  );
+  return hash(SVGO_VERSION, prettier.version, ...sources);
+}
+
+function readCache(cacheFile: string, version: string): CacheData {
+  try {
+    const data: CacheData = JSON.parse(fs.readFileSync(cacheFile, "utf-8"));
+    if (data.version === version) return data;
+  } catch {
+    // Missing or unreadable: start over
+  }
+  return { version, icons: {}, files: {} };
+}
+
+/**
+ * Open the cache of the build turning `iconDir` into `srcDir`, or an
+ * in-memory one that reprocesses everything when `cacheDir` is false
+ */
+export function openBuildCache(
+  cacheDir: string | false,
+  iconDir: string,
+  srcDir: string,
+): BuildCache {
+  const version = cacheVersion();
+  const cacheFile = cacheDir
+    ? path.join(cacheDir, `${hash(iconDir, srcDir).slice(0, 12)}.json`)
+    : null;
+  const previous = cacheFile
+    ? readCache(cacheFile, version)
+    : { version, icons: {}, files: {} };
+  // Files of targets this build does not run are kept until they are deleted
+  const next: CacheData = { version, icons: {}, files: { ...previous.files } };
+  let processed = 0;
+
+  return {
+    loadIcons() {
+      processed = 0;
+      return fs
+        .readdirSync(iconDir)
+        .filter((file) => file.endsWith(".svg"))
+        .sort()
+        .map((file) => {
+          const filePath = path.join(iconDir, file);
+          const key = hash(file, fs.readFileSync(filePath, "utf-8"));
+          let icon = previous.icons[key];
+          if (!icon) {
+            icon = processIcon(filePath);
+            processed++;
+          }
+          next.icons[key] = icon;
+          return icon;
+        });
+    },
+
+    async writeFile(file, code, format) {
+      const input = hash(code);
+      const entry = previous.files[file];
+      const current = fs.existsSync(file)
+        ? hash(fs.readFileSync(file, "utf-8"))
+        : null;
+
+      if (entry?.input === input && entry.output === current) return false;
+
+      const output = await format(code);
+      fs.writeFileSync(file, output);
+      next.files[file] = { input, output: hash(output) };
+      return true;
+    },
+
+    get processed() {
+      return processed;
+    },
+
+    save() {
+      if (!cacheFile) return;
+      for (const file of Object.keys(next.files)) {
+        if (!fs.existsSync(file)) delete next.files[file];
+      }
+      fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+      fs.writeFileSync(cacheFile, JSON.stringify(next));
+    },
+  };
+}
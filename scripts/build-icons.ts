@@ -0,0 +1,258 @@
+import fs from "fs";
+import path from "path";
+import { BuildCache, CACHE_DIR, openBuildCache } from "./build-cache.js";
+import { IconAlias, loadAliases } from "./icon-aliases.js";
+import {
+  CSS_PREFIX,
+  ICON_DIR,
+  IconSizeGroup,
+  ProcessedIcon,
+  groupSizeVariants,
+  listNamedIcons,
+} from "./icon-pipeline.js";
+import { buildCss } from "./targets/css.js";
+import { buildReact } from "./targets/react.js";
+import { buildSprite } from "./targets/sprite.js";
+import { buildTailwind } from "./targets/tailwind.js";
+import { buildNative } from "./targets/native.js";
+import { buildVue } from "./targets/vue.js";
+import { buildWebComponent } from "./targets/web-component.js";
+
+/**
+ * Programmatic build: turns a folder of SVGs into any of the package outputs.
+ * The generate-*.ts scripts are thin callers of buildIcons for this package;
+ * other icon packs call it from the published `infotravel-icons/build` entry
+ * with their own folders and prefixes.
+ */
+
+export type BuildTarget =
+  | "css"
+  | "sprite"
+  | "tailwind"
+  | "web-component"
+  | "react"
+  | "vue"
+  | "native";
+
+export const BUILD_TARGETS: BuildTarget[] = [
+  "css",
+  "sprite",
+  "tailwind",
+  "web-component",
+  "react",
+  "vue",
+  "native",
+];
+
+/**
+ * Where generated components import the runtime (createIcon, IconProvider,
+ * ...) from.
+ * - package: `infotravel-icons`, `infotravel-icons/vue` and
+ *   `infotravel-icons/native`, for icon packs built in their own repository
+ * - local: Icon.tsx, vue/Icon.ts and native/Icon.tsx in `srcDir`, as in this
+ *   repository
+ */
+export type BuildRuntime = "package" | "local";
+
+export interface BuildLogger {
+  log(message: string): void;
+  warn(message: string): void;
+}
+
+export interface BuildIconsOptions {
+  /** Folder of source SVGs (default: public/icons) */
+  iconDir?: string;
+  /**
+   * Folder for the CSS, sprite, Tailwind plugin, Web Component and icons.json
+   * (default: dist)
+   */
+  outDir?: string;
+  /**
+   * Folder the React, Vue and React Native sources are generated into
+   * (default: src)
+   */
+  srcDir?: string;
+  /**
+   * Where generated components import the runtime from (default: "local"
+   * when `srcDir` holds Icon.tsx, "package" otherwise)
+   */
+  runtime?: BuildRuntime;
+  /** Prefix of CSS classes, Tailwind utilities and sprite ids (default: "icone") */
+  cssPrefix?: string;
+  /** Prefix of component names, e.g. "Ico" → IcoWifi (default: none) */
+  componentPrefix?: string;
+  /** Outputs to generate (default: all) */
+  targets?: BuildTarget[];
+  /** Receives progress messages and warnings (default: silent) */
+  logger?: BuildLogger;
+  /**
+   * Folder of the content-hash cache, or false to reprocess every icon
+   * (default: node_modules/.cache/infotravel-icons)
+   */
+  cacheDir?: string | false;
+}
+
+/** Resolved options and loaded icons, passed to every target */
+export interface BuildContext {
+  icons: ProcessedIcon[];
+  sizeGroups: IconSizeGroup[];
+  /** Old names from aliases.json that still resolve, as deprecated outputs */
+  aliases: IconAlias[];
+  outDir: string;
+  srcDir: string;
+  runtime: BuildRuntime;
+  cssPrefix: string;
+  componentPrefix: string;
+  logger: BuildLogger;
+  /** Adds a warning to the report and logs it */
+  warn(message: string): void;
+  cache: BuildCache;
+}
+
+/** Files a target wrote, and stale files it removed */
+export interface TargetOutput {
+  /** Absolute paths of the files generated (written or already up to date) */
+  files: string[];
+  /** Absolute paths of generated files whose icon no longer exists */
+  removed: string[];
+}
+
+export interface TargetReport extends TargetOutput {
+  target: BuildTarget;
+}
+
+export interface BuildReport {
+  iconDir: string;
+  icons: number;
+  /** How many of `icons` keep their own colors */
+  multicolorIcons: number;
+  /** Icons run through SVGO and color normalization (the rest were cached) */
+  processedIcons: number;
+  sizeGroups: number;
+  /** Deprecated aliases generated */
+  aliases: number;
+  targets: TargetReport[];
+  warnings: string[];
+  durationMs: number;
+}
+
+const SILENT_LOGGER: BuildLogger = { log() {}, warn() {} };
+
+const TARGET_BUILDERS: Record<
+  BuildTarget,
+  (context: BuildContext) => Promise<TargetOutput>
+> = {
+  css: buildCss,
+  sprite: buildSprite,
+  tailwind: buildTailwind,
+  "web-component": buildWebComponent,
+  react: buildReact,
+  vue: buildVue,
+  native: buildNative,
+};
+
+/**
+ * Load, optimize and classify every SVG in `iconDir` once, then generate the
+ * requested targets from it. Relative folders and the defaults resolve
+ * against the working directory.
+ */
+export async function buildIcons(
+  options: BuildIconsOptions = {},
+): Promise<BuildReport> {
+  const start = Date.now();
+  const iconDir = path.resolve(options.iconDir ?? ICON_DIR);
+  const logger = options.logger ?? SILENT_LOGGER;
+  const requested = options.targets ?? BUILD_TARGETS;
+  const unknown = requested.find((target) => !BUILD_TARGETS.includes(target));
+  if (unknown) throw new Error(`Unknown build target "${unknown}"`);
+
+  const warnings: string[] = [];
+
+  const warn = (message: string) => {
+    warnings.push(message);
+    logger.warn(`⚠️  ${message}`);
+  };
+
+  const srcDir = path.resolve(options.srcDir ?? "src");
+  const cache = openBuildCache(options.cacheDir ?? CACHE_DIR, iconDir, srcDir);
+  const icons = cache.loadIcons();
+  const sizeGroups = groupSizeVariants(icons, warn);
+  const slugs = new Set(
+    listNamedIcons(icons, sizeGroups).map(({ slug }) => slug),
+  );
+  const context: BuildContext = {
+    icons,
+    sizeGroups,
+    aliases: loadAliases(iconDir, slugs, warn),
+    outDir: path.resolve(options.outDir ?? "dist"),
+    srcDir,
+    runtime:
+      options.runtime ??
+      (fs.existsSync(path.join(srcDir, "Icon.tsx")) ? "local" : "package"),
+    cssPrefix: options.cssPrefix ?? CSS_PREFIX,
+    componentPrefix: options.componentPrefix ?? "",
+    logger,
+    warn,
+    cache,
+  };
+
+  const targets: TargetReport[] = [];
+  for (const target of requested) {
+    targets.push({ target, ...(await TARGET_BUILDERS[target](context)) });
+  }
+  cache.save();
+
+  return {
+    iconDir,
+    icons: icons.length,
+    multicolorIcons: icons.filter((icon) => icon.isMulticolor).length,
+    processedIcons: cache.processed,
+    sizeGroups: sizeGroups.length,
+    aliases: context.aliases.length,
+    targets,
+    warnings,
+    durationMs: Date.now() - start,
+  };
+}
+
+/**
+ * Run `build` now and again whenever a file in `iconDir` changes. Bursts of
+ * events (an editor saving, a folder being copied) trigger one build, and a
+ * change during a build queues another. `build` reports its own errors.
+ * Returns a function that stops watching.
+ */
+export function watchIcons(
+  iconDir: string,
+  build: () => Promise<void>,
+): () => void {
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+  let queued = false;
+
+  const run = async () => {
+    if (running) {
+      queued = true;
+      return;
+    }
+    running = true;
+    try {
+      do {
+        queued = false;
+        await build();
+      } while (queued);
+    } finally {
+      running = false;
+    }
+  };
+
+  const watcher = fs.watch(iconDir, () => {
+    clearTimeout(timer);
+    timer = setTimeout(run, 100);
+  });
+  run();
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -0,0 +1,116 @@
+import { build } from "esbuild";
+import path from "path";
+import { fileURLToPath } from "url";
+import vm from "vm";
+
+/**
+ * Bundle checks: bundles the React and Vue runtimes for the browser the way an
+ * app bundler does (process.env.NODE_ENV replaced, no `process` global), runs
+ * the bundle, and checks that deprecated icons warn once in development and
+ * never in production.
+ *
+ *   pnpm test:bundle
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ROOT = path.join(__dirname, "..");
+
+type Mode = "development" | "production";
+
+const MODES: Mode[] = ["development", "production"];
+
+/** Renders a deprecated icon twice and stores the promise in `done` */
+const ENTRIES: Record<string, string> = {
+  react: `
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { createDeprecatedIcon, createIcon } from "./src/Icon";
+
+const Wifi = createIcon("Wifi", "<path d='M0 0h24'/>", false, "0 0 24 24");
+const OldWifi = createDeprecatedIcon("OldWifi", "Wifi", Wifi);
+
+globalThis.done = Promise.resolve().then(() => {
+  renderToStaticMarkup(React.createElement(OldWifi));
+  renderToStaticMarkup(React.createElement(OldWifi));
+});
+`,
+  vue: `
+import { createSSRApp, h } from "vue";
+import { renderToString } from "vue/server-renderer";
+import { createDeprecatedIcon, createIcon } from "./src/vue/Icon";
+
+const Wifi = createIcon("Wifi", "<path d='M0 0h24'/>", false, "0 0 24 24");
+const OldWifi = createDeprecatedIcon("OldWifi", "Wifi", Wifi);
+
+globalThis.done = (async () => {
+  await renderToString(createSSRApp({ render: () => h(OldWifi) }));
+  await renderToString(createSSRApp({ render: () => h(OldWifi) }));
+})();
+`,
+};
+
+/**
+ * Bundle `entry` for the browser in `mode` and run it in a context without
+ * `process`, returning the package warnings it logged
+ */
+async function run(entry: string, mode: Mode): Promise<string[]> {
+  const result = await build({
+    stdin: { contents: entry, resolveDir: ROOT, loader: "tsx" },
+    bundle: true,
+    platform: "browser",
+    format: "iife",
+    define: { "process.env.NODE_ENV": JSON.stringify(mode) },
+    logLevel: "silent",
+    write: false,
+  });
+
+  const warnings: string[] = [];
+  const context = vm.createContext({
+    console: { ...console, warn: (message: string) => warnings.push(message) },
+    TextEncoder,
+    TextDecoder,
+    setTimeout,
+    clearTimeout,
+    queueMicrotask,
+  });
+  vm.runInContext(result.outputFiles[0].text, context);
+  await context.done;
+  // Frameworks log their own development notices
+  return warnings.filter((message) => message.startsWith("infotravel-icons:"));
+}
+
+async function main() {
+  const failures: string[] = [];
+
+  for (const [runtime, entry] of Object.entries(ENTRIES)) {
+    for (const mode of MODES) {
+      const label = `${runtime.padEnd(5)} ${mode}`;
+      try {
+        const warnings = await run(entry, mode);
+        const expected = mode === "production" ? 0 : 1;
+        if (warnings.length === expected) {
+          console.log(`✅ ${label}: ${warnings.length} deprecation warnings`);
+        } else {
+          failures.push(
+            `${label}: ${warnings.length} deprecation warnings, expected ${expected}`,
+          );
+        }
+      } catch (error) {
+        failures.push(
+          `${label}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+  }
+
+  if (failures.length > 0) {
+    failures.forEach((failure) => console.log(`❌ ${failure}`));
+    process.exit(1);
+  }
+
+  console.log("\n✨ Every bundle behaves as expected");
+}
+
+main();
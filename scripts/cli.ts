@@ -0,0 +1,458 @@
+#!/usr/bin/env node
+import path from "path";
+import { parseArgs } from "util";
+import type { IconManifestEntry } from "../src/types.js";
+import {
+  BUILD_TARGETS,
+  BuildTarget,
+  buildIcons,
+  watchIcons,
+} from "./build-icons.js";
+import { addIcon } from "./icon-add.js";
+import { loadAliases, readAliases } from "./icon-aliases.js";
+import { buildManifest } from "./icon-manifest.js";
+import {
+  CSS_PREFIX,
+  ICON_DIR,
+  groupSizeVariants,
+  listNamedIcons,
+  loadIcons,
+  toPascalCase,
+} from "./icon-pipeline.js";
+import {
+  RELEASE_MANIFEST,
+  ReleaseDiff,
+  ReleaseManifest,
+  buildReleaseManifest,
+  bumpVersion,
+  diffReleases,
+  packageVersion,
+  readReleaseManifest,
+  suggestBump,
+  writeReleaseManifest,
+} from "./icon-release.js";
+import {
+  IconDiagnostic,
+  formatDiagnostics,
+  validateIcons,
+} from "./icon-validation.js";
+
+/**
+ * `infotravel-icons` command: build, add, list, search, validate and
+ * inspect the icon set. Published as dist/cli.mjs; run it with
+ * `pnpm icons <command>` in this repo.
+ */
+
+type Values = Record<string, string | boolean | undefined>;
+
+interface Command {
+  usage: string;
+  description: string;
+  options?: Record<string, { type: "string" | "boolean"; short?: string }>;
+  run(positionals: string[], values: Values): Promise<void> | void;
+}
+
+const GLOBAL_OPTIONS = {
+  "icon-dir": { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+function iconDirOf(values: Values): string {
+  return path.resolve((values["icon-dir"] as string | undefined) ?? ICON_DIR);
+}
+
+/**
+ * Print diagnostics and return whether any of them is an error
+ */
+function reportDiagnostics(diagnostics: IconDiagnostic[]): boolean {
+  formatDiagnostics(diagnostics).forEach((line) => console.log(line));
+  return diagnostics.some((d) => d.severity === "error");
+}
+
+/**
+ * Manifest entries computed from the source folder, so icons added since the
+ * last build are included
+ */
+function loadManifest(
+  iconDir: string,
+  componentPrefix?: string,
+): IconManifestEntry[] {
+  const icons = loadIcons(iconDir);
+  return buildManifest(
+    icons,
+    groupSizeVariants(icons, () => {}),
+    CSS_PREFIX,
+    componentPrefix,
+  );
+}
+
+/**
+ * Release manifest of the source folder, recorded as `version`
+ */
+function loadRelease(iconDir: string, version: string): ReleaseManifest {
+  const icons = loadIcons(iconDir);
+  const groups = groupSizeVariants(icons, () => {});
+  const slugs = new Set(listNamedIcons(icons, groups).map(({ slug }) => slug));
+  const aliases = loadAliases(iconDir, slugs, (message) =>
+    console.warn(`⚠️  ${message}`),
+  );
+
+  return buildReleaseManifest(
+    version,
+    icons,
+    groups,
+    Object.fromEntries(aliases.map(({ slug, target }) => [slug, target])),
+    CSS_PREFIX,
+  );
+}
+
+function printSection(title: string, lines: string[]) {
+  if (lines.length === 0) return;
+  console.log(`\n${title} (${lines.length})`);
+  lines.forEach((line) => console.log(`   ${line}`));
+}
+
+function printReleaseDiff(diff: ReleaseDiff) {
+  const aliased = new Set(diff.aliased);
+  const note = (slug: string) =>
+    aliased.has(slug) ? " (kept as a deprecated alias)" : "";
+
+  printSection(
+    "➕ Added",
+    diff.added.map((icon) => `${icon.slug}  ${icon.componentName}`),
+  );
+  printSection(
+    "➖ Removed",
+    diff.removed.map((icon) => `${icon.slug}${note(icon.slug)}`),
+  );
+  printSection(
+    "🔀 Renamed",
+    diff.renamed.map(
+      ({ from, to }) => `${from.slug} → ${to.slug}${note(from.slug)}`,
+    ),
+  );
+  printSection(
+    "🎨 Changed",
+    diff.changed.map((icon) => icon.slug),
+  );
+  for (const [kind, title] of [
+    ["component", "🏷️  Component names"],
+    ["class", "🏷️  CSS classes"],
+  ] as const) {
+    printSection(
+      title,
+      diff.names
+        .filter((change) => change.kind === kind)
+        .map(
+          ({ from, to, aliased }) =>
+            `${from} → ${to}${aliased ? " (deprecated alias kept)" : ""}`,
+        ),
+    );
+  }
+  printSection("🗑️  Removed deprecated aliases", diff.removedAliases);
+}
+
+function printEntries(entries: IconManifestEntry[]) {
+  const width = Math.max(0, ...entries.map((entry) => entry.slug.length));
+  const componentWidth = Math.max(
+    0,
+    ...entries.map((entry) => entry.componentName.length),
+  );
+
+  for (const entry of entries) {
+    console.log(
+      `${entry.slug.padEnd(width)}  ${entry.componentName.padEnd(componentWidth)}  ${entry.sizes.join("/")}px  ${entry.colorMode}`,
+    );
+  }
+}
+
+function matches(entry: IconManifestEntry, term: string): boolean {
+  const needle = term.toLowerCase();
+  return [entry.slug, entry.componentName, entry.sourceFile].some((value) =>
+    value.toLowerCase().includes(needle),
+  );
+}
+
+function validate(iconDir: string): boolean {
+  const diagnostics = validateIcons(iconDir);
+  const hasErrors = reportDiagnostics(diagnostics);
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+
+  console.log(
+    `\n📊 ${new Set(diagnostics.map((d) => d.fileName)).size} files with issues: ${errors} errors, ${diagnostics.length - errors} warnings`,
+  );
+  return !hasErrors;
+}
+
+async function build(iconDir: string, values: Values) {
+  const targets = (values.targets as string | undefined)
+    ?.split(",")
+    .map((target) => target.trim()) as BuildTarget[] | undefined;
+
+  console.log("🔍 Validating icons...\n");
+  if (!validate(iconDir)) {
+    throw new Error("Icon validation failed, nothing was built");
+  }
+
+  console.log(`\n🚀 Building ${(targets ?? BUILD_TARGETS).join(", ")}...\n`);
+  const report = await buildIcons({
+    iconDir,
+    outDir: values["out-dir"] as string | undefined,
+    srcDir: values["src-dir"] as string | undefined,
+    cssPrefix: values["css-prefix"] as string | undefined,
+    componentPrefix: values["component-prefix"] as string | undefined,
+    targets,
+    logger: console,
+  });
+
+  const files = report.targets.reduce((n, t) => n + t.files.length, 0);
+  console.log(
+    `\n✨ Built ${report.icons} icons (${report.processedIcons} processed) and ${report.sizeGroups} size groups into ${files} files in ${report.durationMs}ms`,
+  );
+}
+
+const COMMANDS: Record<string, Command> = {
+  build: {
+    usage:
+      "build [--targets css,sprite,tailwind,web-component,react,vue,native] [--out-dir dir] [--watch]",
+    description:
+      "Validate the icons, then generate the CSS, React, Vue and React Native outputs",
+    options: {
+      targets: { type: "string" },
+      "out-dir": { type: "string" },
+      "src-dir": { type: "string" },
+      "css-prefix": { type: "string" },
+      "component-prefix": { type: "string" },
+      watch: { type: "boolean" },
+    },
+    run(_, values) {
+      const iconDir = iconDirOf(values);
+
+      if (!values.watch) return build(iconDir, values);
+
+      watchIcons(iconDir, async () => {
+        try {
+          await build(iconDir, values);
+        } catch (error) {
+          console.error(`❌ ${error instanceof Error ? error.message : error}`);
+        }
+        console.log(`\n👀 Watching ${iconDir} for changes...`);
+      });
+    },
+  },
+
+  add: {
+    usage: "add <file.svg> [--name name] [--size px] [--force]",
+    description: "Normalize, optimize and validate an SVG into the icon set",
+    options: {
+      name: { type: "string" },
+      size: { type: "string" },
+      force: { type: "boolean" },
+    },
+    run([file], values) {
+      if (!file) throw new Error("Missing the SVG file to add");
+
+      const { fileName, filePath, diagnostics } = addIcon(path.resolve(file), {
+        name: values.name as string | undefined,
+        size: values.size !== undefined ? Number(values.size) : undefined,
+        iconDir: iconDirOf(values),
+        force: values.force === true,
+      });
+
+      if (reportDiagnostics(diagnostics)) {
+        throw new Error(`${fileName} was not added`);
+      }
+
+      const shown = path.relative(process.cwd(), filePath);
+      console.log(`✅ Added ${shown.startsWith("..") ? filePath : shown}`);
+      console.log(
+        "   Run `pnpm build` and `pnpm test:visual:update` to publish it.",
+      );
+    },
+  },
+
+  list: {
+    usage: "list",
+    description: "List every icon and size group",
+    run(_, values) {
+      const entries = loadManifest(iconDirOf(values));
+      printEntries(entries);
+      console.log(`\n📦 ${entries.length} icons`);
+    },
+  },
+
+  search: {
+    usage: "search <term>",
+    description: "Find icons by slug, component name or source file",
+    run([term], values) {
+      if (!term) throw new Error("Missing the search term");
+
+      const entries = loadManifest(iconDirOf(values)).filter((entry) =>
+        matches(entry, term),
+      );
+      printEntries(entries);
+      console.log(`\n🔍 ${entries.length} icons matching "${term}"`);
+    },
+  },
+
+  validate: {
+    usage: "validate",
+    description: "Check the source SVGs without building",
+    run(_, values) {
+      console.log("🔍 Validating icons...\n");
+      if (!validate(iconDirOf(values))) {
+        throw new Error("Icon validation failed");
+      }
+      console.log("✨ Icon validation passed!");
+    },
+  },
+
+  release: {
+    usage: "release [--update] [--manifest file]",
+    description:
+      "Compare the icon set with the last release and suggest the next version",
+    options: {
+      update: { type: "boolean" },
+      manifest: { type: "string" },
+    },
+    run(_, values) {
+      const file = path.resolve(
+        (values.manifest as string | undefined) ?? RELEASE_MANIFEST,
+      );
+      const version = packageVersion();
+      const current = loadRelease(iconDirOf(values), version);
+
+      if (values.update) {
+        writeReleaseManifest(file, current);
+        console.log(
+          `✅ Recorded ${current.icons.length} icons as version ${version} in ${path.relative(process.cwd(), file)}`,
+        );
+        return;
+      }
+
+      const previous = readReleaseManifest(file);
+      const diff = diffReleases(previous, current);
+      console.log(`📦 Changes since ${previous.version}`);
+      printReleaseDiff(diff);
+
+      const { bump, reason } = suggestBump(diff);
+      const next = bumpVersion(previous.version, bump);
+      console.log(
+        bump === "none"
+          ? `\n✨ No changes, ${reason}`
+          : `\n🚀 Suggested version: ${next} (${bump}, ${reason})`,
+      );
+      if (bump !== "none" && version !== next) {
+        console.log(`   package.json is at ${version}`);
+      }
+    },
+  },
+
+  info: {
+    usage: "info <name> [--component-prefix prefix]",
+    description: "Show an icon's component, CSS class, viewBox and colors",
+    options: {
+      "component-prefix": { type: "string" },
+    },
+    run([name], values) {
+      if (!name) throw new Error("Missing the icon name");
+
+      const iconDir = iconDirOf(values);
+      const componentPrefix =
+        (values["component-prefix"] as string | undefined) ?? "";
+      const entries = loadManifest(iconDir, componentPrefix);
+      const find = (slug: string) =>
+        entries.find((candidate) =>
+          [
+            candidate.slug,
+            candidate.componentName,
+            candidate.cssClass,
+          ].includes(slug),
+        );
+      // Old slugs, CSS classes and component names resolve to the icon they
+      // were renamed to
+      const aliases = readAliases(iconDir);
+      const oldSlug = Object.keys(aliases).find((slug) =>
+        [
+          slug,
+          `${CSS_PREFIX}-${slug}`,
+          `${componentPrefix}${toPascalCase(slug)}`,
+        ].includes(name),
+      );
+      const renamedTo = oldSlug ? aliases[oldSlug] : undefined;
+      const entry = find(name) ?? (renamedTo ? find(renamedTo) : undefined);
+
+      if (!entry) {
+        const similar = entries.filter((candidate) => matches(candidate, name));
+        const hint = similar.length
+          ? `, did you mean ${similar
+              .slice(0, 5)
+              .map((candidate) => candidate.slug)
+              .join(", ")}?`
+          : "";
+        throw new Error(`No icon named "${name}"${hint}`);
+      }
+
+      const rows: [string, string][] = [
+        ["Component", `<${entry.componentName} />`],
+        ["CSS class", entry.cssClass],
+        ["viewBox", entry.viewBox],
+        ["Sizes", entry.sizes.map((size) => `${size}px`).join(", ")],
+        ["Color mode", `${entry.colorMode} (${entry.renderMode})`],
+        ["Source", entry.sourceFile],
+        ["Optimized", `${entry.byteSize} bytes`],
+      ];
+      if (entry.palette.length > 0) {
+        rows.push(["Palette", entry.palette.join(", ")]);
+      }
+
+      console.log(entry.slug);
+      if (!find(name)) {
+        console.log(`   Renamed from ${name}, which is deprecated`);
+      }
+      for (const [label, value] of rows) {
+        console.log(`   ${label.padEnd(11)} ${value}`);
+      }
+    },
+  },
+};
+
+function printHelp() {
+  console.log("Usage: infotravel-icons <command> [--icon-dir dir]\n");
+  for (const { usage, description } of Object.values(COMMANDS)) {
+    console.log(`   ${usage}`);
+    console.log(`      ${description}`);
+  }
+}
+
+async function main() {
+  const [name, ...args] = process.argv.slice(2);
+  const command = name ? COMMANDS[name] : undefined;
+
+  if (!command) {
+    printHelp();
+    if (name && name !== "help" && name !== "--help" && name !== "-h") {
+      throw new Error(`Unknown command "${name}"`);
+    }
+    return;
+  }
+
+  const { positionals, values } = parseArgs({
+    args,
+    options: { ...GLOBAL_OPTIONS, ...command.options },
+    allowPositionals: true,
+  });
+
+  if (values.help) {
+    console.log(`Usage: infotravel-icons ${command.usage}`);
+    console.log(`   ${command.description}`);
+    return;
+  }
+
+  await command.run(positionals, values);
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { toDataUri } from "./icon-css.js";
+import {
+  PALETTE_VARIABLE_PREFIX,
+  loadIcons,
+  toStandaloneSVG,
+} from "./icon-pipeline.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FIXTURE_DIR = path.join(__dirname, "../fixtures/colors");
+const OUTPUT_DIR = path.join(__dirname, "../dist");
+const OUTPUT_FILE = path.join(OUTPUT_DIR, "color-fixtures.html");
+
+const ACCENT = "#e63946";
+
+if (!fs.existsSync(OUTPUT_DIR)) {
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+}
+
+// Color fixtures go through the same pipeline as the real icons
+const fixtures = loadIcons(FIXTURE_DIR);
+
+const rows = fixtures.map((icon) => {
+  const source = fs.readFileSync(
+    path.join(FIXTURE_DIR, icon.fileName),
+    "utf-8",
+  );
+  // Each fixture states what should happen in its first comment
+  const description = source.match(/<!--\s*([\s\S]*?)\s*-->/)?.[1] ?? "";
+
+  // Rendered as images, so ids inside each SVG cannot clash on the page
+  const processed = toDataUri(toStandaloneSVG(icon, "#333"));
+  const themed = toDataUri(
+    icon.isMulticolor
+      ? toStandaloneSVG(icon, "none").replace(
+          "<svg ",
+          `<svg style="${PALETTE_VARIABLE_PREFIX}1: ${ACCENT}" `,
+        )
+      : toStandaloneSVG(icon, ACCENT),
+  );
+
+  return `
+        <tr>
+            <td><code>${icon.fileName}</code><p>${description}</p></td>
+            <td><img src="${toDataUri(source)}" alt=""></td>
+            <td><img src="${processed}" alt=""></td>
+            <td><img src="${themed}" alt=""></td>
+            <td><code>${icon.colorMode} / ${icon.renderMode}${
+              icon.strokeWidth !== null ? ` / stroke ${icon.strokeWidth}` : ""
+            }</code></td>
+        </tr>`;
+});
+
+const htmlContent = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Infotravel Icons - Color Fixtures</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+            padding: 40px;
+            background: #f5f5f7;
+            color: #333;
+        }
+        table { border-collapse: collapse; margin: 0 auto; background: #fff; }
+        th, td { padding: 16px; border-bottom: 1px solid #eee; text-align: left; vertical-align: middle; }
+        td p { max-width: 360px; margin: 8px 0 0; color: #666; font-size: 13px; }
+        img { width: 48px; height: 48px; display: block; }
+        code { font-size: 12px; color: #86868b; }
+    </style>
+</head>
+<body>
+    <h1>Color Fixtures</h1>
+    <table>
+        <tr>
+            <th>Fixture</th>
+            <th>Source</th>
+            <th>Processed</th>
+            <th>Themed (${ACCENT})</th>
+            <th>Mode</th>
+        </tr>${rows.join("")}
+    </table>
+</body>
+</html>
+`;
+
+fs.writeFileSync(OUTPUT_FILE, htmlContent);
+console.log(`Generated ${OUTPUT_FILE} with ${fixtures.length} fixtures.`);
@@ -0,0 +1,7 @@
+import { buildIcons } from "./build-icons.js";
+
+// SVG sprite of <symbol>s; see buildIcons for the programmatic API
+buildIcons({ targets: ["sprite"], logger: console }).catch((error) => {
+  console.error("❌ Error generating the sprite:", error);
+  process.exit(1);
+});
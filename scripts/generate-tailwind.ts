@@ -0,0 +1,7 @@
+import { buildIcons } from "./build-icons.js";
+
+// Tailwind plugin and its types; see buildIcons for the programmatic API
+buildIcons({ targets: ["tailwind"], logger: console }).catch((error) => {
+  console.error("❌ Error generating the Tailwind plugin:", error);
+  process.exit(1);
+});
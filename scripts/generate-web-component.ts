@@ -0,0 +1,7 @@
+import { buildIcons } from "./build-icons.js";
+
+// <infotravel-icon> custom element; see buildIcons for the programmatic API
+buildIcons({ targets: ["web-component"], logger: console }).catch((error) => {
+  console.error("❌ Error generating the Web Component:", error);
+  process.exit(1);
+});
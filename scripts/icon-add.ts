@@ -0,0 +1,117 @@
+import fs from "fs";
+import path from "path";
+import { optimize } from "svgo";
+import { IconDiagnostic, validateIcons } from "./icon-validation.js";
+import { ICON_DIR, parseSizeSuffix, slugify } from "./icon-pipeline.js";
+
+/**
+ * Adding a source SVG to the icon set: the file is renamed to a slug,
+ * optimized and checked with the same rules as `pnpm validate` before it is
+ * kept in the icon folder.
+ */
+
+export interface AddIconOptions {
+  /** Icon name (default: the file name), normalized to a slug */
+  name?: string;
+  /** Size in px, appended as a `-NNpx` suffix */
+  size?: number;
+  /** Folder to add the icon to (default: public/icons) */
+  iconDir?: string;
+  /** Replace an existing icon with the same name */
+  force?: boolean;
+}
+
+export interface AddIconResult {
+  fileName: string;
+  filePath: string;
+  /** Diagnostics for the file; if any is an error, the file was not kept */
+  diagnostics: IconDiagnostic[];
+}
+
+/**
+ * SVGO settings for source files. Unlike the build, which optimizes again,
+ * this keeps the file a standalone SVG: xmlns and ids stay unprefixed and
+ * styles are left where the designer put them.
+ */
+function optimizeSource(svgContent: string, filePath: string): string {
+  return optimize(svgContent, {
+    path: filePath,
+    multipass: true,
+    plugins: ["preset-default", "removeDimensions"],
+  }).data;
+}
+
+/**
+ * Slug an icon is stored under, with the size suffix from `size` if given
+ */
+export function toIconSlug(name: string, size?: number): string {
+  const slug = slugify(name.replace(/\.svg$/i, ""));
+  if (!slug) throw new Error(`"${name}" is not a valid icon name`);
+  if (size === undefined) return slug;
+
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error(`Size must be a positive number of pixels, got ${size}`);
+  }
+
+  const suffix = parseSizeSuffix(slug);
+  if (suffix && suffix.size !== size) {
+    throw new Error(
+      `Name "${slug}" already has a ${suffix.size}px suffix, but the size is ${size}`,
+    );
+  }
+
+  return suffix ? slug : `${slug}-${size}px`;
+}
+
+/**
+ * Copy `sourceFile` into the icon folder under its normalized name.
+ * Throws if the name is taken; a file that fails validation is removed
+ * again (or the replaced one restored), leaving the folder as it was.
+ */
+export function addIcon(
+  sourceFile: string,
+  { name, size, iconDir = ICON_DIR, force = false }: AddIconOptions = {},
+): AddIconResult {
+  if (!fs.existsSync(sourceFile)) {
+    throw new Error(`File not found: ${sourceFile}`);
+  }
+  if (path.extname(sourceFile).toLowerCase() !== ".svg") {
+    throw new Error(`Not an SVG file: ${sourceFile}`);
+  }
+
+  const fileName = `${toIconSlug(name ?? path.basename(sourceFile), size)}.svg`;
+  const filePath = path.join(iconDir, fileName);
+  const previous = fs.existsSync(filePath)
+    ? fs.readFileSync(filePath, "utf-8")
+    : null;
+
+  if (previous !== null && !force) {
+    throw new Error(`${fileName} already exists (use --force to replace it)`);
+  }
+
+  const source = fs.readFileSync(sourceFile, "utf-8");
+  let optimized: string;
+  try {
+    optimized = optimizeSource(source, sourceFile);
+  } catch (error) {
+    throw new Error(`SVGO could not parse ${sourceFile}: ${error}`);
+  }
+
+  fs.mkdirSync(iconDir, { recursive: true });
+  fs.writeFileSync(filePath, optimized + "\n");
+
+  // Collisions depend on the other files, so the whole folder is checked
+  const diagnostics = validateIcons(iconDir).filter(
+    (diagnostic) => diagnostic.fileName === fileName,
+  );
+
+  if (diagnostics.some((d) => d.severity === "error")) {
+    if (previous !== null) {
+      fs.writeFileSync(filePath, previous);
+    } else {
+      fs.rmSync(filePath);
+    }
+  }
+
+  return { fileName, filePath, diagnostics };
+}
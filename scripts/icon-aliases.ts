@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import { parseSizeSuffix, slugify } from "./icon-pipeline.js";
+
+/**
+ * Renamed icons: `aliases.json` in the icon folder maps old slugs to current
+ * ones, e.g. { "flag-brazil": "multicolor-flag-brazil" }. The builds keep the
+ * old names working as deprecated components and CSS classes.
+ */
+
+export const ALIASES_FILE = "aliases.json";
+
+export interface IconAlias {
+  /** Old slug, e.g. "flag-brazil" */
+  slug: string;
+  /** Slug of the icon or size group it now points to */
+  target: string;
+}
+
+export interface AliasProblem {
+  slug: string;
+  message: string;
+}
+
+/**
+ * Read the alias map of an icon folder; folders without one have no aliases
+ */
+export function readAliases(iconDir: string): Record<string, string> {
+  const file = path.join(iconDir, ALIASES_FILE);
+  if (!fs.existsSync(file)) return {};
+
+  const aliases: unknown = JSON.parse(fs.readFileSync(file, "utf-8"));
+  if (
+    typeof aliases !== "object" ||
+    aliases === null ||
+    Array.isArray(aliases) ||
+    Object.values(aliases).some((target) => typeof target !== "string")
+  ) {
+    throw new Error(`${ALIASES_FILE} must map old slugs to current slugs`);
+  }
+  return aliases as Record<string, string>;
+}
+
+/**
+ * Slugs an alias can point to: every file, plus the size group names
+ * (wifi for wifi-16px.svg and wifi-24px.svg)
+ */
+export function namedSlugs(fileNames: string[]): Set<string> {
+  const slugs = fileNames.map((fileName) =>
+    slugify(path.basename(fileName, ".svg")),
+  );
+  return new Set([
+    ...slugs,
+    ...slugs.flatMap((slug) => parseSizeSuffix(slug)?.base ?? []),
+  ]);
+}
+
+/**
+ * Aliases that cannot be generated: old names that are not slugs or are
+ * still in use, and targets that do not exist
+ */
+export function findAliasProblems(
+  aliases: Record<string, string>,
+  slugs: Set<string>,
+): AliasProblem[] {
+  return Object.entries(aliases).flatMap(([slug, target]) => {
+    if (slugify(slug) !== slug) {
+      return [{ slug, message: `"${slug}" is not a slug` }];
+    }
+    if (slugs.has(slug)) {
+      return [{ slug, message: `"${slug}" is still the name of an icon` }];
+    }
+    if (!slugs.has(target)) {
+      return [
+        { slug, message: `"${slug}" points to unknown icon "${target}"` },
+      ];
+    }
+    return [];
+  });
+}
+
+/**
+ * Valid aliases of an icon folder, sorted by old slug; problems are passed
+ * to `warn` and the alias skipped
+ */
+export function loadAliases(
+  iconDir: string,
+  slugs: Set<string>,
+  warn: (message: string) => void,
+): IconAlias[] {
+  const aliases = readAliases(iconDir);
+  const problems = findAliasProblems(aliases, slugs);
+  problems.forEach(({ message }) => warn(`Skipping alias: ${message}`));
+
+  const skipped = new Set(problems.map((problem) => problem.slug));
+  return Object.entries(aliases)
+    .filter(([slug]) => !skipped.has(slug))
+    .map(([slug, target]) => ({ slug, target }))
+    .sort((a, b) => a.slug.localeCompare(b.slug));
+}
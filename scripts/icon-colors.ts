@@ -0,0 +1,408 @@
+import { XastElement, XastParent, optimize } from "svgo";
+
+/**
+ * Color normalization on the parsed SVG tree, shared by every output through
+ * icon-pipeline.ts. Paint is resolved with the SVG inheritance rules (root →
+ * groups → shapes, style declarations over presentation attributes) and
+ * written back so each rendered shape either inherits the color prop from the
+ * root or carries an explicit fixed color.
+ */
+
+export type ColorMode = "monochrome" | "colored" | "multicolor";
+
+/**
+ * Which root paint the color prop drives after color processing:
+ * 'fill' = shapes inherit fill only, 'stroke' = shapes inherit stroke only,
+ * 'mixed' = both are inherited
+ */
+export type RenderMode = "fill" | "stroke" | "mixed";
+
+export interface NormalizedColors {
+  /** Inner markup, without the <svg> wrapper */
+  svgContent: string;
+  viewBox: string;
+  colorMode: ColorMode;
+  renderMode: RenderMode;
+  /** Stroke width shared by every stroked shape, hoisted to the root */
+  strokeWidth: number | null;
+  /** Original colors of a multicolor icon, in order of appearance */
+  palette: string[];
+}
+
+/** Elements whose fill/stroke the color processing rewrites */
+export const SHAPE_TAGS = [
+  "path",
+  "circle",
+  "rect",
+  "ellipse",
+  "polygon",
+  "line",
+  "polyline",
+];
+
+export const PALETTE_VARIABLE_PREFIX = "--icon-color-";
+
+/** Only their geometry is used, so their colors are left alone */
+const CLIP_TAGS = ["clipPath"];
+
+/** Colors are handled through the palette (multicolor) or not at all */
+const PAINT_SERVER_TAGS = ["linearGradient", "radialGradient"];
+
+/**
+ * Content referenced from elsewhere rather than rendered in place. Its colors
+ * matter as-is (e.g. mask luminance), so they are resolved and kept.
+ */
+const REFERENCED_TAGS = ["defs", "mask", "pattern", "marker", "symbol"];
+
+/**
+ * Inherited properties of the root <svg>. Generated components replace the
+ * root, so these move to its children.
+ */
+const INHERITED_ROOT_PROPERTIES = [
+  "fill-rule",
+  "fill-opacity",
+  "clip-rule",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-miterlimit",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "stroke-opacity",
+];
+
+const BLACK_COLORS = new Set(["black", "#000", "#000000"]);
+const WHITE_COLORS = new Set(["white", "#fff", "#ffffff"]);
+
+function isBlackColor(color: string): boolean {
+  return BLACK_COLORS.has(color.toLowerCase().trim());
+}
+
+function isWhiteColor(color: string): boolean {
+  return WHITE_COLORS.has(color.toLowerCase().trim());
+}
+
+/** Colors that are not a fixed value: none, currentColor and paint servers */
+function isPaintKeyword(color: string): boolean {
+  const lc = color.toLowerCase();
+  return lc === "none" || lc === "currentcolor" || lc.startsWith("url(");
+}
+
+export function elementChildren(node: XastParent): XastElement[] {
+  return node.children.filter(
+    (child): child is XastElement => child.type === "element",
+  );
+}
+
+export function parseStyle(node: XastElement): [string, string][] {
+  return (node.attributes.style ?? "")
+    .split(";")
+    .filter((declaration) => declaration.includes(":"))
+    .map((declaration) => {
+      const index = declaration.indexOf(":");
+      return [
+        declaration.slice(0, index).trim().toLowerCase(),
+        declaration.slice(index + 1).trim(),
+      ];
+    });
+}
+
+function setStyle(node: XastElement, declarations: [string, string][]) {
+  if (declarations.length === 0) {
+    delete node.attributes.style;
+  } else {
+    node.attributes.style = declarations
+      .map(([property, value]) => `${property}:${value}`)
+      .join(";");
+  }
+}
+
+/**
+ * Specified value of a property on an element: a style declaration wins over
+ * the presentation attribute. `inherit` counts as unspecified.
+ */
+function readProperty(node: XastElement, property: string): string | undefined {
+  const declaration = parseStyle(node).find(([name]) => name === property);
+  const value = (declaration?.[1] ?? node.attributes[property])
+    ?.replace(/\s*!important$/, "")
+    .trim();
+  return value && value !== "inherit" ? value : undefined;
+}
+
+function removeProperty(node: XastElement, property: string) {
+  delete node.attributes[property];
+  if (node.attributes.style !== undefined) {
+    setStyle(
+      node,
+      parseStyle(node).filter(([name]) => name !== property),
+    );
+  }
+}
+
+/**
+ * Detect whether an SVG uses non-black, non-white colors.
+ * 'monochrome' = only black/white → black becomes target color
+ * 'colored' = has other colors → only those become target color, black/white preserved
+ */
+function detectColorMode(node: XastElement): "monochrome" | "colored" {
+  for (const property of ["fill", "stroke"]) {
+    const color = readProperty(node, property);
+    if (
+      color &&
+      color.toLowerCase() !== "none" &&
+      color.toLowerCase() !== "currentcolor" &&
+      !isBlackColor(color) &&
+      !isWhiteColor(color)
+    ) {
+      return "colored";
+    }
+  }
+
+  const isColored = elementChildren(node).some(
+    (child) =>
+      !CLIP_TAGS.includes(child.name) && detectColorMode(child) === "colored",
+  );
+  return isColored ? "colored" : "monochrome";
+}
+
+/**
+ * Determine what to do with a color value during extraction.
+ * Returns:
+ *   undefined → strip attribute, element inherits target color from wrapper
+ *   string → explicit attribute value to set
+ */
+function computeNewColor(
+  effectiveColor: string,
+  colorMode: "monochrome" | "colored",
+): string | undefined {
+  const lc = effectiveColor.toLowerCase().trim();
+
+  if (lc === "none") return "none";
+  if (lc === "currentcolor") return undefined;
+
+  if (isWhiteColor(effectiveColor)) return "white";
+
+  if (isBlackColor(effectiveColor)) {
+    // In colored icons, black is structural and should be preserved
+    if (colorMode === "colored") return "black";
+    // In monochrome icons, black becomes target color
+    return undefined;
+  }
+
+  // Any other color → strip → inherits target color from wrapper
+  return undefined;
+}
+
+interface ComputedPaint {
+  fill: string;
+  stroke: string;
+  strokeWidth: string | null;
+}
+
+interface ResolvedShape extends ComputedPaint {
+  node: XastElement;
+  /** False for shapes inside defs, masks and other referenced content */
+  rendered: boolean;
+}
+
+/**
+ * Resolve the computed paint of every shape and strip fill, stroke and
+ * stroke-width from the tree; normalizeTree writes them back per shape
+ */
+function resolveShapes(
+  node: XastElement,
+  inherited: ComputedPaint,
+  rendered: boolean,
+  shapes: ResolvedShape[],
+) {
+  for (const child of elementChildren(node)) {
+    if (
+      CLIP_TAGS.includes(child.name) ||
+      PAINT_SERVER_TAGS.includes(child.name)
+    )
+      continue;
+
+    const paint: ComputedPaint = {
+      fill: readProperty(child, "fill") ?? inherited.fill,
+      stroke: readProperty(child, "stroke") ?? inherited.stroke,
+      strokeWidth: readProperty(child, "stroke-width") ?? inherited.strokeWidth,
+    };
+    removeProperty(child, "fill");
+    removeProperty(child, "stroke");
+    removeProperty(child, "stroke-width");
+
+    if (SHAPE_TAGS.includes(child.name)) {
+      shapes.push({ node: child, rendered, ...paint });
+    }
+
+    resolveShapes(
+      child,
+      paint,
+      rendered && !REFERENCED_TAGS.includes(child.name),
+      shapes,
+    );
+  }
+}
+
+/**
+ * Replace every color in multicolor content with a CSS variable that falls
+ * back to the original color, e.g. style="fill:var(--icon-color-1,#009c3b)".
+ * Colors are numbered by first appearance; the same color shares a variable.
+ * A style declaration is used since var() is not valid in presentation
+ * attributes.
+ */
+function applyPaletteVariables(node: XastElement, palette: string[]) {
+  const declarations: [string, string][] = [];
+
+  for (const property of ["fill", "stroke", "stop-color"]) {
+    const value = readProperty(node, property);
+    if (!value || isPaintKeyword(value)) continue;
+
+    const color = value.toLowerCase();
+    if (!palette.includes(color)) palette.push(color);
+    removeProperty(node, property);
+    declarations.push([
+      property,
+      `var(${PALETTE_VARIABLE_PREFIX}${palette.indexOf(color) + 1},${color})`,
+    ]);
+  }
+
+  if (declarations.length > 0) {
+    setStyle(node, [...declarations, ...parseStyle(node)]);
+  }
+
+  for (const child of elementChildren(node)) {
+    if (!CLIP_TAGS.includes(child.name)) applyPaletteVariables(child, palette);
+  }
+}
+
+function normalizeTree(
+  svg: XastElement,
+  isMulticolor: boolean,
+): Omit<NormalizedColors, "svgContent"> {
+  const colorMode = isMulticolor ? "multicolor" : detectColorMode(svg);
+
+  for (const property of INHERITED_ROOT_PROPERTIES) {
+    const value = readProperty(svg, property);
+    if (value === undefined) continue;
+    for (const child of elementChildren(svg)) {
+      if (readProperty(child, property) === undefined) {
+        child.attributes[property] = value;
+      }
+    }
+  }
+
+  const shapes: ResolvedShape[] = [];
+  resolveShapes(
+    svg,
+    {
+      fill: readProperty(svg, "fill") ?? "black",
+      stroke: readProperty(svg, "stroke") ?? "none",
+      strokeWidth: readProperty(svg, "stroke-width") ?? null,
+    },
+    true,
+    shapes,
+  );
+
+  let inheritsFill = false;
+  let inheritsStroke = false;
+  const strokedWidths = new Set<string | null>();
+
+  for (const shape of shapes) {
+    // Multicolor icons and referenced content keep their resolved colors
+    const keepColors = colorMode === "multicolor" || !shape.rendered;
+    const fill = keepColors
+      ? shape.fill
+      : computeNewColor(shape.fill, colorMode);
+    const stroke = keepColors
+      ? shape.stroke
+      : computeNewColor(shape.stroke, colorMode);
+
+    if (fill !== undefined) shape.node.attributes.fill = fill;
+    if (stroke !== undefined) shape.node.attributes.stroke = stroke;
+
+    if (shape.rendered) {
+      if (fill === undefined) inheritsFill = true;
+      if (stroke === undefined) inheritsStroke = true;
+      if (stroke !== "none") strokedWidths.add(shape.strokeWidth);
+    }
+  }
+
+  // Hoist a stroke width shared by every stroked shape so the strokeWidth
+  // prop can override it. Icons whose stroked shapes disagree (or rely on the
+  // default width of 1) keep a width per shape.
+  const [sharedWidth] = [...strokedWidths];
+  const strokeWidth =
+    colorMode !== "multicolor" &&
+    strokedWidths.size === 1 &&
+    sharedWidth !== null &&
+    !isNaN(Number(sharedWidth))
+      ? Number(sharedWidth)
+      : null;
+
+  for (const shape of shapes) {
+    if (
+      shape.strokeWidth !== null &&
+      (strokeWidth === null || !shape.rendered)
+    ) {
+      shape.node.attributes["stroke-width"] = shape.strokeWidth;
+    }
+  }
+
+  const palette: string[] = [];
+  if (colorMode === "multicolor") {
+    for (const child of elementChildren(svg)) {
+      if (!CLIP_TAGS.includes(child.name)) {
+        applyPaletteVariables(child, palette);
+      }
+    }
+  }
+
+  let renderMode: RenderMode = "fill";
+  if (inheritsStroke) renderMode = inheritsFill ? "mixed" : "stroke";
+
+  return {
+    viewBox: svg.attributes.viewBox ?? "0 0 24 24", // Default to 24x24
+    colorMode,
+    renderMode,
+    strokeWidth,
+    palette,
+  };
+}
+
+/**
+ * Parse an optimized SVG, normalize its colors and return the inner markup:
+ * - Multicolor: every shape keeps its resolved colors, exposed as palette
+ *   variables
+ * - Monochrome (black/white only): black follows the color prop, white is kept
+ * - Colored (has non-black/non-white): those colors follow the color prop,
+ *   black and white are kept
+ */
+export function normalizeColors(
+  svg: string,
+  isMulticolor: boolean,
+): NormalizedColors {
+  let normalized: Omit<NormalizedColors, "svgContent"> = {
+    viewBox: "0 0 24 24",
+    colorMode: isMulticolor ? "multicolor" : "monochrome",
+    renderMode: "fill",
+    strokeWidth: null,
+    palette: [],
+  };
+
+  const { data } = optimize(svg, {
+    plugins: [
+      {
+        name: "normalizeColors",
+        fn: (root) => {
+          const svgElement = elementChildren(root).find(
+            (node) => node.name === "svg",
+          );
+          if (svgElement) normalized = normalizeTree(svgElement, isMulticolor);
+        },
+      },
+    ],
+  });
+
+  const inner = data.match(/<svg[^>]*>([\s\S]*)<\/svg>/);
+  return { svgContent: inner ? inner[1].trim() : "", ...normalized };
+}
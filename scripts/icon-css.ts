@@ -0,0 +1,103 @@
+import {
+  ProcessedIcon,
+  hasFixedColors,
+  toStandaloneSVG,
+} from "./icon-pipeline.js";
+
+/**
+ * CSS rules shared by every stylesheet-style output (the CSS file and the
+ * Tailwind plugin), so a class renders identically wherever it comes from.
+ */
+
+export type CssDeclarations = [property: string, value: string][];
+
+export function toDataUri(svg: string): string {
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+/**
+ * Declarations for a single icon class.
+ * The CSS is derived from the same processed markup createIcon renders:
+ * - Multicolor: the icon as-is, as a background image
+ * - Otherwise: a mask of every painted shape filled with currentColor,
+ *   plus an overlay for black/white parts that do not follow the color
+ */
+export function iconDeclarations(icon: ProcessedIcon): CssDeclarations {
+  if (icon.isMulticolor) {
+    return [
+      [
+        "background-image",
+        `url('${toDataUri(toStandaloneSVG(icon, "none"))}')`,
+      ],
+    ];
+  }
+
+  const maskUri = toDataUri(toStandaloneSVG(icon, "#000"));
+  const background = hasFixedColors(icon)
+    ? `url('${toDataUri(toStandaloneSVG(icon, "none"))}') center / contain no-repeat, currentColor`
+    : "currentColor";
+
+  return [
+    ["-webkit-mask-image", `url('${maskUri}')`],
+    ["mask-image", `url('${maskUri}')`],
+    ["-webkit-mask-repeat", "no-repeat"],
+    ["mask-repeat", "no-repeat"],
+    ["-webkit-mask-position", "center"],
+    ["mask-position", "center"],
+    ["-webkit-mask-size", "contain"],
+    ["mask-size", "contain"],
+    ["background", background],
+  ];
+}
+
+/** Size scale classes, as values of the --{prefix}-size custom property */
+export const SIZE_SCALE: [name: string, size: string][] = [
+  ["xs", "0.75rem"],
+  ["sm", "1rem"],
+  ["md", "1.25rem"],
+  ["lg", "1.5rem"],
+  ["xl", "2rem"],
+];
+
+/** Names of the {prefix}-{name} modifier classes, used next to an icon class */
+export const MODIFIERS = [
+  ...SIZE_SCALE.map(([name]) => name),
+  "rotate-90",
+  "rotate-180",
+  "rotate-270",
+  "flip-h",
+  "flip-v",
+  "spin",
+  "pulse",
+];
+
+/**
+ * Selectors of the rule holding baseDeclarations: the icon classes
+ * themselves, so an element with only modifier classes (a wrapper with
+ * {prefix}-spin, a container setting {prefix}-lg) is not made an icon box
+ */
+export function baseSelectors(prefix: string, slugs: string[]): string[] {
+  return slugs.map((slug) => `.${prefix}-${slug}`);
+}
+
+/**
+ * Declarations shared by every icon class. Icons are sized by the
+ * --{prefix}-size custom property, and by font-size when it is not set.
+ */
+export function baseDeclarations(prefix: string): CssDeclarations {
+  return [
+    ["display", "inline-block"],
+    ["width", `var(--${prefix}-size, 1em)`],
+    ["height", `var(--${prefix}-size, 1em)`],
+    ["background-repeat", "no-repeat"],
+    ["background-position", "center"],
+    ["background-size", "contain"],
+    ["vertical-align", "middle"],
+  ];
+}
+
+export function formatDeclarations(declarations: CssDeclarations): string {
+  return declarations
+    .map(([property, value]) => `  ${property}: ${value};`)
+    .join("\n");
+}
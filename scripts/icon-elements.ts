@@ -0,0 +1,82 @@
+import { XastElement, optimize } from "svgo";
+import { elementChildren, parseStyle } from "./icon-colors.js";
+
+/**
+ * An element of an icon's processed content, for targets that build the
+ * markup from elements rather than injecting it as a string
+ */
+export interface IconElement {
+  name: string;
+  /** Attributes other than style */
+  attributes: Record<string, string>;
+  /** Declarations of the style attribute, in order */
+  style: [string, string][];
+  children: IconElement[];
+}
+
+function toIconElement(node: XastElement): IconElement {
+  const { style, ...attributes } = node.attributes;
+  return {
+    name: node.name,
+    attributes,
+    style: style === undefined ? [] : parseStyle(node),
+    children: elementChildren(node).map(toIconElement),
+  };
+}
+
+/**
+ * Parse an icon's svgContent (the inner markup of its <svg>) into elements.
+ * Text and comments are dropped; SVGO has already removed them from icons.
+ */
+export function parseIconContent(svgContent: string): IconElement[] {
+  let elements: IconElement[] = [];
+
+  optimize(`<svg>${svgContent}</svg>`, {
+    plugins: [
+      {
+        name: "collectElements",
+        fn: (root) => {
+          const [svg] = elementChildren(root);
+          elements = elementChildren(svg).map(toIconElement);
+        },
+      },
+    ],
+  });
+
+  return elements;
+}
+
+/**
+ * Attribute or CSS property name as a React prop: stroke-width → strokeWidth,
+ * xlink:href → href, class → className
+ */
+export function toPropName(name: string): string {
+  if (name === "xlink:href") return "href";
+  if (name === "class") return "className";
+  return name.replace(/[-:]([a-z])/g, (_, letter: string) =>
+    letter.toUpperCase(),
+  );
+}
+
+/**
+ * Props of an element in React DOM: its attributes under their React names,
+ * and its style declarations as a style object (custom properties keep
+ * their names)
+ */
+export function toReactProps({ attributes, style }: IconElement): {
+  props: Record<string, string>;
+  style: Record<string, string>;
+} {
+  const props: Record<string, string> = {};
+  for (const [name, value] of Object.entries(attributes)) {
+    props[toPropName(name)] = value;
+  }
+
+  const styleObject: Record<string, string> = {};
+  for (const [property, value] of style) {
+    styleObject[property.startsWith("--") ? property : toPropName(property)] =
+      value;
+  }
+
+  return { props, style: styleObject };
+}
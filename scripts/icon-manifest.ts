@@ -0,0 +1,47 @@
+import type { IconManifestEntry } from "../src/types.js";
+import { IconSizeGroup, ProcessedIcon } from "./icon-pipeline.js";
+
+/**
+ * Build manifest entries for every generated component, sorted by component
+ * name. Size groups describe their default variant (the one rendered at 24px).
+ */
+export function buildManifest(
+  icons: ProcessedIcon[],
+  groups: IconSizeGroup[],
+  cssPrefix: string,
+  componentPrefix: string = "",
+): IconManifestEntry[] {
+  const toEntry = (
+    icon: ProcessedIcon,
+    { componentName, slug }: { componentName: string; slug: string },
+    sizes: number[],
+  ): IconManifestEntry => ({
+    componentName: `${componentPrefix}${componentName}`,
+    slug,
+    cssClass: `${cssPrefix}-${slug}`,
+    sourceFile: icon.fileName,
+    viewBox: icon.viewBox,
+    sizes,
+    colorMode: icon.colorMode,
+    renderMode: icon.renderMode,
+    byteSize: icon.byteSize,
+    palette: icon.palette,
+  });
+
+  const iconEntries = icons.map((icon) => {
+    const size = icon.size ?? Number(icon.viewBox.split(/[\s,]+/)[2]);
+    return toEntry(icon, icon, [size]);
+  });
+
+  const groupEntries = groups.map((group) =>
+    toEntry(
+      group.defaultVariant,
+      group,
+      group.variants.map((v) => v.size),
+    ),
+  );
+
+  return [...iconEntries, ...groupEntries].sort((a, b) =>
+    a.componentName.localeCompare(b.componentName),
+  );
+}
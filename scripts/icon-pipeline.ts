@@ -0,0 +1,292 @@
+import fs from "fs";
+import path from "path";
+import { optimize } from "svgo";
+import { ColorMode, RenderMode, normalizeColors } from "./icon-colors.js";
+
+/**
+ * Shared icon pipeline used by generate-icons.ts (CSS) and
+ * generate-react-icons.ts (React). Loading, SVGO optimization and color
+ * classification happen here once, so every output renders the same glyph.
+ */
+
+/** Source SVGs, relative to the package being built (the working directory) */
+export const ICON_DIR = path.resolve("public/icons");
+export const CSS_PREFIX = "icone";
+export const DEFAULT_SIZE = 24;
+
+export type { ColorMode, RenderMode } from "./icon-colors.js";
+export { PALETTE_VARIABLE_PREFIX, SHAPE_TAGS } from "./icon-colors.js";
+
+export interface ProcessedIcon {
+  componentName: string;
+  fileName: string;
+  slug: string;
+  /** Size from a `-NNpx` suffix, null for unsized files */
+  size: number | null;
+  isMulticolor: boolean;
+  colorMode: ColorMode;
+  renderMode: RenderMode;
+  /** Stroke width shared by every stroked shape, hoisted to the root */
+  strokeWidth: number | null;
+  /** Optimized inner SVG with colors normalized for rendering */
+  svgContent: string;
+  viewBox: string;
+  /** Size in bytes of the optimized SVG */
+  byteSize: number;
+  /**
+   * Original colors of a multicolor icon, in order of appearance.
+   * Color N is exposed as the CSS variable --icon-color-N.
+   */
+  palette: string[];
+}
+
+export interface IconSizeGroup {
+  componentName: string;
+  slug: string;
+  variants: { size: number; icon: ProcessedIcon }[];
+  /** Variant rendered at the default size */
+  defaultVariant: ProcessedIcon;
+}
+
+/**
+ * Slugify filename
+ * 1. Normalize to NFD to separate accents
+ * 2. Remove diacritical marks
+ * 3. Replace non-alphanumeric chars (except hyphens) with hyphens
+ * 4. Collapse multiple hyphens
+ * 5. Trim hyphens
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Convert slug to PascalCase for component names
+ */
+export function toPascalCase(slug: string): string {
+  return slug
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
+
+/**
+ * Split a `-NNpx` size suffix off a slug (e.g. "wifi-16px" → wifi, 16)
+ */
+export function parseSizeSuffix(
+  slug: string,
+): { base: string; size: number } | null {
+  const match = slug.match(/^(.+)-(\d+)px$/);
+  return match ? { base: match[1], size: Number(match[2]) } : null;
+}
+
+/**
+ * Icons whose slug starts with `multicolor-` keep all their original colors
+ */
+export function isMulticolorSlug(slug: string): boolean {
+  return slug.startsWith("multicolor-");
+}
+
+/**
+ * Prefix of every id in processed content (clip paths, masks, gradients).
+ * Outputs that share a document replace it, so references from different
+ * icons never resolve to each other: createIcon per instance (src/Icon.tsx
+ * keeps the same value), the sprite per symbol.
+ */
+export const ID_PLACEHOLDER = "__icon_id__";
+
+/**
+ * Replace the id placeholder with a namespace
+ */
+export function scopeIds(svgContent: string, namespace: string): string {
+  return svgContent.split(ID_PLACEHOLDER).join(namespace);
+}
+
+/**
+ * Optimize SVG source with SVGO, falling back to the original on failure
+ */
+export function optimizeSVG(svgContent: string, filePath: string): string {
+  try {
+    return optimize(svgContent, {
+      path: filePath,
+      multipass: true,
+      plugins: [
+        {
+          name: "preset-default",
+          params: {
+            overrides: {
+              // Move every <style> rule onto its elements, so colors set in
+              // stylesheets are resolved like any other
+              inlineStyles: { onlyMatchedOnce: false },
+            },
+          },
+        },
+        {
+          name: "prefixIds",
+          params: { prefix: ID_PLACEHOLDER, prefixClassNames: false },
+        },
+      ],
+    }).data;
+  } catch (error) {
+    console.warn(
+      `⚠️  SVGO optimization failed for ${path.basename(filePath)}, using original`,
+    );
+    return svgContent;
+  }
+}
+
+/**
+ * Load, optimize and classify a single SVG file
+ */
+export function processIcon(filePath: string): ProcessedIcon {
+  const fileName = path.basename(filePath);
+  const svgContent = fs.readFileSync(filePath, "utf-8");
+
+  const slug = slugify(path.basename(fileName, ".svg"));
+  const isMulticolor = isMulticolorSlug(slug);
+
+  const optimizedContent = optimizeSVG(svgContent, filePath);
+
+  // Multicolor icons ignore color/strokeWidth; their colors become palette
+  // variables instead
+  const normalized = normalizeColors(optimizedContent, isMulticolor);
+
+  return {
+    componentName: toPascalCase(slug),
+    fileName,
+    slug,
+    size: parseSizeSuffix(slug)?.size ?? null,
+    isMulticolor,
+    colorMode: normalized.colorMode,
+    renderMode: normalized.renderMode,
+    strokeWidth: normalized.strokeWidth,
+    svgContent: normalized.svgContent,
+    viewBox: normalized.viewBox,
+    byteSize: Buffer.byteLength(optimizedContent),
+    palette: normalized.palette,
+  };
+}
+
+/**
+ * Load every SVG in the icon directory, sorted by file name
+ */
+export function loadIcons(iconDir: string = ICON_DIR): ProcessedIcon[] {
+  return fs
+    .readdirSync(iconDir)
+    .filter((file) => file.endsWith(".svg"))
+    .sort()
+    .map((file) => processIcon(path.join(iconDir, file)));
+}
+
+/**
+ * Pick the variant closest to the requested size; ties go to the larger
+ * source (same rule as createSizedIcon in src/Icon.tsx)
+ */
+export function pickVariant<T extends { size: number }>(
+  variants: T[],
+  size: number = DEFAULT_SIZE,
+): T {
+  return variants.reduce((best, current) =>
+    Math.abs(current.size - size) < Math.abs(best.size - size) ||
+    (Math.abs(current.size - size) === Math.abs(best.size - size) &&
+      current.size > best.size)
+      ? current
+      : best,
+  );
+}
+
+/**
+ * Group size variants (wifi-16px, wifi-24px, ...) under their base slug.
+ * Bases already taken by an unsized icon (e.g. check-circle.svg) are skipped
+ * so the existing component and class keep their meaning.
+ */
+export function groupSizeVariants(
+  icons: ProcessedIcon[],
+  warn: (message: string) => void = (message) =>
+    console.warn(`⚠️  ${message}`),
+): IconSizeGroup[] {
+  const taken = new Set(icons.map((icon) => icon.componentName));
+  const groups = new Map<string, { size: number; icon: ProcessedIcon }[]>();
+
+  for (const icon of icons) {
+    const parsed = parseSizeSuffix(icon.slug);
+    if (!parsed) continue;
+    const variants = groups.get(parsed.base) ?? [];
+    variants.push({ size: parsed.size, icon });
+    groups.set(parsed.base, variants);
+  }
+
+  return [...groups.entries()]
+    .map(([slug, variants]) => ({
+      componentName: toPascalCase(slug),
+      slug,
+      variants: variants.sort((a, b) => a.size - b.size),
+      defaultVariant: pickVariant(variants).icon,
+    }))
+    .filter((group) => {
+      if (!taken.has(group.componentName)) return true;
+      warn(
+        `Skipping size group ${group.componentName}, name already used by another icon`,
+      );
+      return false;
+    });
+}
+
+/**
+ * Root paint attributes createIcon renders for an icon, with `color`
+ * standing in for the color prop
+ */
+export function rootPaintAttributes(
+  icon: ProcessedIcon,
+  color: string,
+): { fill: string; stroke: string; "stroke-width"?: string } {
+  if (icon.isMulticolor) return { fill: "none", stroke: "none" };
+
+  const fill = icon.renderMode === "stroke" ? "none" : color;
+  const stroke = icon.renderMode === "fill" ? "none" : color;
+  return icon.strokeWidth !== null && icon.renderMode !== "fill"
+    ? { fill, stroke, "stroke-width": String(icon.strokeWidth) }
+    : { fill, stroke };
+}
+
+/**
+ * Every class/symbol name an output should emit: one per icon, plus one per
+ * size group (icone-wifi) using the same default source as `<Wifi />`
+ */
+export function listNamedIcons(
+  icons: ProcessedIcon[],
+  groups: IconSizeGroup[] = groupSizeVariants(icons),
+): { slug: string; icon: ProcessedIcon }[] {
+  return [
+    ...icons.map((icon) => ({ slug: icon.slug, icon })),
+    ...groups.map((group) => ({
+      slug: group.slug,
+      icon: group.defaultVariant,
+    })),
+  ];
+}
+
+/**
+ * Wrap processed inner content in a standalone <svg>, mirroring the root
+ * attributes createIcon renders. "none" as color hides every part that
+ * would follow the color prop.
+ */
+export function toStandaloneSVG(icon: ProcessedIcon, color: string): string {
+  const attrs = Object.entries(rootPaintAttributes(icon, color))
+    .map(([name, value]) => ` ${name}="${value}"`)
+    .join("");
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${icon.viewBox}"${attrs}>${icon.svgContent}</svg>`;
+}
+
+/**
+ * Whether the processed content keeps explicit black/white parts that do not
+ * follow the color prop
+ */
+export function hasFixedColors(icon: ProcessedIcon): boolean {
+  return /\b(?:fill|stroke)="(?:white|black)"/.test(icon.svgContent);
+}
@@ -0,0 +1,256 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  IconSizeGroup,
+  ProcessedIcon,
+  toStandaloneSVG,
+} from "./icon-pipeline.js";
+
+/**
+ * Release reports: the icon set of the last published version is recorded in
+ * release/manifest.json, and the current set is compared with it to list
+ * what consumers will notice and which semver bump that calls for.
+ */
+
+/** Relative to the package being released (the working directory) */
+export const RELEASE_MANIFEST = path.resolve("release/manifest.json");
+
+export interface ReleaseIcon {
+  slug: string;
+  componentName: string;
+  cssClass: string;
+  /** Hash of the rendered SVG (of every variant for size groups) */
+  hash: string;
+}
+
+export interface ReleaseManifest {
+  /** Package version the manifest was recorded for */
+  version: string;
+  icons: ReleaseIcon[];
+  /** Deprecated aliases, from old slug to current slug */
+  aliases: Record<string, string>;
+}
+
+export interface IconRename {
+  from: ReleaseIcon;
+  to: ReleaseIcon;
+}
+
+export interface NameChange {
+  kind: "component" | "class";
+  from: string;
+  to: string;
+  /** Whether the old name keeps working as a deprecated alias */
+  aliased: boolean;
+}
+
+export interface ReleaseDiff {
+  added: ReleaseIcon[];
+  removed: ReleaseIcon[];
+  /** Icons whose slug changed but whose content did not */
+  renamed: IconRename[];
+  /** Icons with the same slug and different content */
+  changed: ReleaseIcon[];
+  /** Component names and CSS classes consumers have to update */
+  names: NameChange[];
+  /** Old slugs of removed and renamed icons kept as deprecated aliases */
+  aliased: string[];
+  /** Deprecated aliases of the previous version that no longer exist */
+  removedAliases: string[];
+}
+
+export type SemverBump = "major" | "minor" | "patch" | "none";
+
+function hash(content: string): string {
+  return crypto.createHash("sha1").update(content).digest("hex").slice(0, 16);
+}
+
+function hashIcon(icon: ProcessedIcon): string {
+  return hash(toStandaloneSVG(icon, "currentColor"));
+}
+
+/**
+ * Release manifest of an icon set, sorted by slug
+ */
+export function buildReleaseManifest(
+  version: string,
+  icons: ProcessedIcon[],
+  groups: IconSizeGroup[],
+  aliases: Record<string, string>,
+  cssPrefix: string,
+): ReleaseManifest {
+  const toEntry = (
+    { slug, componentName }: { slug: string; componentName: string },
+    contentHash: string,
+  ): ReleaseIcon => ({
+    slug,
+    componentName,
+    cssClass: `${cssPrefix}-${slug}`,
+    hash: contentHash,
+  });
+
+  return {
+    version,
+    icons: [
+      ...icons.map((icon) => toEntry(icon, hashIcon(icon))),
+      ...groups.map((group) =>
+        toEntry(
+          group,
+          hash(
+            group.variants
+              .map(({ size, icon }) => `${size}:${hashIcon(icon)}`)
+              .join(","),
+          ),
+        ),
+      ),
+    ].sort((a, b) => a.slug.localeCompare(b.slug)),
+    aliases: Object.fromEntries(
+      Object.entries(aliases).sort(([a], [b]) => a.localeCompare(b)),
+    ),
+  };
+}
+
+export function readReleaseManifest(file: string): ReleaseManifest {
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `No release manifest at ${file}, record one with \`infotravel-icons release --update\``,
+    );
+  }
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+export function writeReleaseManifest(file: string, manifest: ReleaseManifest) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+/**
+ * Compare two icon sets. A removed icon whose content reappears under a new
+ * slug is reported as renamed; a rename that also changes the content shows
+ * up as a removal and an addition.
+ */
+export function diffReleases(
+  previous: ReleaseManifest,
+  current: ReleaseManifest,
+): ReleaseDiff {
+  const before = new Map(previous.icons.map((icon) => [icon.slug, icon]));
+  const after = new Map(current.icons.map((icon) => [icon.slug, icon]));
+
+  const added = current.icons.filter((icon) => !before.has(icon.slug));
+  const renamed: IconRename[] = [];
+  const removed = previous.icons.filter((from) => {
+    if (after.has(from.slug)) return false;
+    const index = added.findIndex((to) => to.hash === from.hash);
+    if (index === -1) return true;
+    renamed.push({ from, to: added.splice(index, 1)[0] });
+    return false;
+  });
+
+  const changed = current.icons.filter((icon) => {
+    const old = before.get(icon.slug);
+    return old !== undefined && old.hash !== icon.hash;
+  });
+
+  const isAliased = (slug: string) => slug in current.aliases;
+  const names = [
+    ...renamed,
+    ...current.icons.flatMap((to) => {
+      const from = before.get(to.slug);
+      return from ? [{ from, to }] : [];
+    }),
+  ].flatMap(({ from, to }) => {
+    const aliased = from.slug !== to.slug && isAliased(from.slug);
+    return [
+      {
+        kind: "component" as const,
+        from: from.componentName,
+        to: to.componentName,
+        aliased,
+      },
+      { kind: "class" as const, from: from.cssClass, to: to.cssClass, aliased },
+    ].filter((change) => change.from !== change.to);
+  });
+
+  return {
+    added,
+    removed,
+    renamed,
+    changed,
+    names,
+    aliased: [
+      ...removed.map((icon) => icon.slug),
+      ...renamed.map((r) => r.from.slug),
+    ]
+      .filter(isAliased)
+      .sort(),
+    removedAliases: Object.keys(previous.aliases)
+      .filter((slug) => !isAliased(slug))
+      .sort(),
+  };
+}
+
+/**
+ * Smallest semver bump that covers a diff, and why
+ */
+export function suggestBump(diff: ReleaseDiff): {
+  bump: SemverBump;
+  reason: string;
+} {
+  const aliased = new Set(diff.aliased);
+  if (diff.removed.some((icon) => !aliased.has(icon.slug))) {
+    return { bump: "major", reason: "icons were removed" };
+  }
+  if (diff.names.some((change) => !change.aliased)) {
+    return {
+      bump: "major",
+      reason:
+        "component names or CSS classes changed without a deprecated alias",
+    };
+  }
+  if (diff.removedAliases.length > 0) {
+    return { bump: "major", reason: "deprecated aliases were removed" };
+  }
+  if (
+    diff.added.length > 0 ||
+    diff.removed.length > 0 ||
+    diff.renamed.length > 0
+  ) {
+    return {
+      bump: "minor",
+      reason: "icons were added, or renamed and kept as deprecated aliases",
+    };
+  }
+  if (diff.changed.length > 0) {
+    return { bump: "patch", reason: "icons changed visually" };
+  }
+  return { bump: "none", reason: "the icon set did not change" };
+}
+
+/**
+ * Apply a bump to a `major.minor.patch` version
+ */
+export function bumpVersion(version: string, bump: SemverBump): string {
+  const match = version.match(/^(\d+)\.(\d+)\.(\d+)/);
+  if (!match) throw new Error(`"${version}" is not a semver version`);
+
+  const [major, minor, patch] = match.slice(1).map(Number);
+  switch (bump) {
+    case "major":
+      return `${major + 1}.0.0`;
+    case "minor":
+      return `${major}.${minor + 1}.0`;
+    case "patch":
+      return `${major}.${minor}.${patch + 1}`;
+    case "none":
+      return version;
+  }
+}
+
+/**
+ * Version of the package in the working directory
+ */
+export function packageVersion(): string {
+  const file = path.resolve("package.json");
+  return JSON.parse(fs.readFileSync(file, "utf-8")).version;
+}
@@ -0,0 +1,341 @@
+import fs from "fs";
+import path from "path";
+import {
+  ALIASES_FILE,
+  findAliasProblems,
+  namedSlugs,
+  readAliases,
+} from "./icon-aliases.js";
+import { MODIFIERS } from "./icon-css.js";
+import {
+  CSS_PREFIX,
+  ICON_DIR,
+  SHAPE_TAGS,
+  isMulticolorSlug,
+  optimizeSVG,
+  parseSizeSuffix,
+  slugify,
+  toPascalCase,
+} from "./icon-pipeline.js";
+
+/**
+ * Checks run on the source SVGs before any output is generated. Errors are
+ * files the pipeline would render wrong or silently drop; warnings are naming
+ * issues that still build.
+ */
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export interface IconDiagnostic {
+  fileName: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  /** 1-based line in the source file, when the issue has a location */
+  line?: number;
+}
+
+/** Elements that carry no paint of their own and need no color processing */
+const STRUCTURAL_TAGS = ["svg", "g", "defs", "clipPath", "mask"];
+
+/** Paint servers; only multicolor icons keep them, others paint the color prop */
+const GRADIENT_TAGS = ["linearGradient", "radialGradient", "stop"];
+
+/**
+ * Content that must not ship in an icon: it either does not render from a
+ * data URI / <use>, is unsafe to inline, or ignores the color processing
+ */
+const FORBIDDEN_CONTENT: { pattern: RegExp; message: string }[] = [
+  { pattern: /<image\b/g, message: "embedded raster image (<image>)" },
+  {
+    pattern: /data:image\/(?!svg)[a-z]+/g,
+    message: "embedded raster data URI",
+  },
+  { pattern: /<script\b/g, message: "script element (<script>)" },
+  {
+    pattern: /\son[a-z]+\s*=/g,
+    message: "event handler attribute (scripts are not allowed)",
+  },
+  { pattern: /<foreignObject\b/g, message: "<foreignObject> content" },
+  { pattern: /<text\b/g, message: "<text> element, convert text to paths" },
+  {
+    pattern: /\b(?:xlink:)?href\s*=\s*["'](?!#)[^"']*["']/g,
+    message: "external reference (href outside the file)",
+  },
+  {
+    pattern: /url\(\s*["']?(?!#|data:)[^)]*\)/g,
+    message: "external reference (url() outside the file)",
+  },
+  { pattern: /@import\b/g, message: "external stylesheet (@import)" },
+];
+
+/** Elements already reported by the content checks */
+const FORBIDDEN_TAGS = ["image", "script", "foreignObject", "text"];
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split("\n").length;
+}
+
+/**
+ * Size and name checks that only need the file name and the viewBox
+ */
+function checkNaming(fileName: string, svgContent: string): IconDiagnostic[] {
+  const diagnostics: IconDiagnostic[] = [];
+  const name = path.basename(fileName, ".svg");
+  const slug = slugify(name);
+
+  if (slug !== name) {
+    diagnostics.push({
+      fileName,
+      severity: "warning",
+      message: `file name is not a slug, it is published as "${slug}"`,
+    });
+  }
+
+  if (/-\d+px-/.test(slug)) {
+    diagnostics.push({
+      fileName,
+      severity: "warning",
+      message:
+        "size suffix is not at the end of the name, so it is not grouped as a size variant",
+    });
+  }
+
+  if (/-icon(?:-\d+px)?$/.test(slug)) {
+    diagnostics.push({
+      fileName,
+      severity: "warning",
+      message: 'redundant "-icon" in the name',
+    });
+  }
+
+  const viewBoxMatch = svgContent.match(/viewBox\s*=\s*["']([^"']+)["']/);
+  if (!viewBoxMatch) {
+    diagnostics.push({
+      fileName,
+      severity: "error",
+      message: "missing viewBox, the icon would be rendered as 24x24",
+    });
+    return diagnostics;
+  }
+
+  const [, , width, height] = viewBoxMatch[1].trim().split(/[\s,]+/);
+  const suffix = parseSizeSuffix(slug);
+  if (
+    suffix &&
+    (Number(width) !== suffix.size || Number(height) !== suffix.size)
+  ) {
+    diagnostics.push({
+      fileName,
+      severity: "error",
+      message: `name says ${suffix.size}px but the viewBox is ${width}x${height}`,
+      line: lineAt(svgContent, viewBoxMatch.index ?? 0),
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Raster images, scripts, text and external references in the source
+ */
+function checkContent(fileName: string, svgContent: string): IconDiagnostic[] {
+  return FORBIDDEN_CONTENT.flatMap(({ pattern, message }) =>
+    [...svgContent.matchAll(pattern)].map((match) => ({
+      fileName,
+      severity: "error" as const,
+      message,
+      line: lineAt(svgContent, match.index ?? 0),
+    })),
+  );
+}
+
+/**
+ * Element types the color processing does not handle, checked on the
+ * optimized markup the pipeline actually processes
+ */
+function checkElements(
+  fileName: string,
+  optimizedContent: string,
+  isMulticolor: boolean,
+): IconDiagnostic[] {
+  const supported = new Set([
+    ...SHAPE_TAGS,
+    ...STRUCTURAL_TAGS,
+    ...(isMulticolor ? GRADIENT_TAGS : []),
+  ]);
+  const unsupported = new Set<string>();
+
+  for (const [, tag] of optimizedContent.matchAll(/<([a-zA-Z][\w:-]*)/g)) {
+    if (!supported.has(tag) && !FORBIDDEN_TAGS.includes(tag)) {
+      unsupported.add(tag);
+    }
+  }
+
+  return [...unsupported].map((tag) =>
+    GRADIENT_TAGS.includes(tag)
+      ? {
+          fileName,
+          severity: "warning" as const,
+          message: `<${tag}> is replaced by the icon color, name the file multicolor-* to keep it`,
+        }
+      : {
+          fileName,
+          severity: "error" as const,
+          message: `unsupported element <${tag}>, its colors would not be processed`,
+        },
+  );
+}
+
+/**
+ * Component names shared by several files. The later file would overwrite
+ * the earlier one's component, class and symbol.
+ */
+function checkCollisions(fileNames: string[]): IconDiagnostic[] {
+  const byComponent = new Map<string, string[]>();
+
+  for (const fileName of fileNames) {
+    const componentName = toPascalCase(
+      slugify(path.basename(fileName, ".svg")),
+    );
+    byComponent.set(componentName, [
+      ...(byComponent.get(componentName) ?? []),
+      fileName,
+    ]);
+  }
+
+  const diagnostics: IconDiagnostic[] = [];
+
+  for (const [componentName, files] of byComponent) {
+    if (files.length > 1) {
+      for (const fileName of files) {
+        diagnostics.push({
+          fileName,
+          severity: "error",
+          message: `component name ${componentName} collides with ${files
+            .filter((other) => other !== fileName)
+            .join(", ")}`,
+        });
+      }
+    }
+  }
+
+  // Size groups (wifi-16px + wifi-24px → Wifi) yield to an unsized icon
+  for (const fileName of fileNames) {
+    const suffix = parseSizeSuffix(slugify(path.basename(fileName, ".svg")));
+    if (!suffix) continue;
+    const groupName = toPascalCase(suffix.base);
+    const owner = byComponent.get(groupName);
+    if (owner) {
+      diagnostics.push({
+        fileName,
+        severity: "warning",
+        message: `size variant is not available as ${groupName}, the name belongs to ${owner.join(", ")}`,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Renames in aliases.json that would not build
+ */
+function checkAliases(iconDir: string, fileNames: string[]): IconDiagnostic[] {
+  try {
+    const aliases = readAliases(iconDir);
+    return [
+      ...findAliasProblems(aliases, namedSlugs(fileNames)).map(
+        ({ message }) => message,
+      ),
+      ...Object.keys(aliases).filter(isModifier).map(modifierClash),
+    ].map((message) => ({
+      fileName: ALIASES_FILE,
+      severity: "error",
+      message,
+    }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return [{ fileName: ALIASES_FILE, severity: "error", message }];
+  }
+}
+
+function isModifier(slug: string): boolean {
+  return MODIFIERS.includes(slug);
+}
+
+function modifierClash(slug: string): string {
+  return `"${slug}" is the name of the ${CSS_PREFIX}-${slug} modifier class, which its icon class would break`;
+}
+
+/**
+ * Icons named like a modifier class (spin, lg, ...), by file or by size group
+ */
+function checkModifierClash(fileName: string): IconDiagnostic[] {
+  const slug = slugify(path.basename(fileName, ".svg"));
+  const group = parseSizeSuffix(slug)?.base;
+
+  return [slug, ...(group ? [group] : [])].filter(isModifier).map((name) => ({
+    fileName,
+    severity: "error",
+    message: modifierClash(name),
+  }));
+}
+
+/**
+ * Validate every SVG in the icon directory and its aliases, sorted by file
+ * name
+ */
+export function validateIcons(iconDir: string = ICON_DIR): IconDiagnostic[] {
+  const fileNames = fs
+    .readdirSync(iconDir)
+    .filter((file) => file.endsWith(".svg"))
+    .sort();
+
+  const diagnostics = fileNames.flatMap((fileName) => {
+    const filePath = path.join(iconDir, fileName);
+    const svgContent = fs.readFileSync(filePath, "utf-8");
+    const slug = slugify(path.basename(fileName, ".svg"));
+
+    return [
+      ...checkNaming(fileName, svgContent),
+      ...checkModifierClash(fileName),
+      ...checkContent(fileName, svgContent),
+      ...checkElements(
+        fileName,
+        optimizeSVG(svgContent, filePath),
+        isMulticolorSlug(slug),
+      ),
+    ];
+  });
+
+  return [
+    ...diagnostics,
+    ...checkCollisions(fileNames),
+    ...checkAliases(iconDir, fileNames),
+  ].sort((a, b) => a.fileName.localeCompare(b.fileName));
+}
+
+/**
+ * Human-readable report lines, grouped by file
+ */
+export function formatDiagnostics(diagnostics: IconDiagnostic[]): string[] {
+  const byFile = new Map<string, IconDiagnostic[]>();
+
+  for (const diagnostic of diagnostics) {
+    byFile.set(diagnostic.fileName, [
+      ...(byFile.get(diagnostic.fileName) ?? []),
+      diagnostic,
+    ]);
+  }
+
+  return [...byFile].flatMap(([fileName, fileDiagnostics]) => {
+    const hasError = fileDiagnostics.some((d) => d.severity === "error");
+    return [
+      `${hasError ? "❌" : "⚠️ "} ${fileName}`,
+      ...fileDiagnostics.map(({ severity, message, line }) => {
+        const location = line !== undefined ? `:${line}` : "";
+        return `   ${severity}${location}: ${message}`;
+      }),
+    ];
+  });
+}
@@ -0,0 +1,279 @@
+import fs from "fs";
+import path from "path";
+import prettier from "prettier";
+import type { BuildContext } from "../build-icons.js";
+import {
+  IconSizeGroup,
+  ProcessedIcon,
+  toPascalCase,
+} from "../icon-pipeline.js";
+
+/**
+ * Shared part of the framework targets (React, Vue, React Native): every
+ * icon, size group and deprecated alias becomes one component file. The
+ * runtimes (Icon.tsx, vue/Icon.ts, native/Icon.tsx) export the same
+ * factories, so size groups and aliases get the same generated code; each
+ * target chooses how icon content is written.
+ */
+
+/** A generated component: an icon file or a size group */
+export interface ComponentSource {
+  componentName: string;
+  slug: string;
+}
+
+export interface ComponentWriter {
+  /** Format and write a file unless its code is unchanged, logging `message` */
+  writeFile(
+    file: string,
+    code: string,
+    label: string,
+    message: string,
+  ): Promise<void>;
+  /** Every file written or already up to date */
+  readonly files: string[];
+  /** How many of `files` were already up to date */
+  readonly unchanged: number;
+}
+
+/** Generates the file of an icon component, importing createIcon from `runtime` */
+export type IconCodeGenerator = (
+  componentName: string,
+  icon: ProcessedIcon,
+  runtime: string,
+) => string;
+
+/** Entry of each framework's runtime in the published package */
+const RUNTIME_PACKAGES = {
+  react: "infotravel-icons",
+  vue: "infotravel-icons/vue",
+  native: "infotravel-icons/native",
+};
+
+export type RuntimeFramework = keyof typeof RUNTIME_PACKAGES;
+
+/**
+ * Module a generated file imports part of `framework`'s runtime from:
+ * `localPath` (relative to the file) for a local runtime, the package entry
+ * otherwise
+ */
+export function runtimeModule(
+  { runtime }: BuildContext,
+  framework: RuntimeFramework,
+  localPath: string,
+): string {
+  return runtime === "local" ? localPath : RUNTIME_PACKAGES[framework];
+}
+
+/**
+ * createIcon options of an icon, as code
+ */
+export function iconOptionsCode({ renderMode, strokeWidth }: ProcessedIcon) {
+  return JSON.stringify(
+    strokeWidth !== null ? { renderMode, strokeWidth } : { renderMode },
+  );
+}
+
+/**
+ * Generate component file content, with the icon's markup as a string
+ */
+function generateComponentCode(
+  componentName: string,
+  icon: ProcessedIcon,
+  runtime: string,
+): string {
+  const { svgContent, isMulticolor, viewBox } = icon;
+
+  return `import { createIcon } from '${runtime}';
+
+const svgContent = \`${svgContent}\`;
+
+export const ${componentName} = createIcon('${componentName}', svgContent, ${isMulticolor}, '${viewBox}', ${iconOptionsCode(icon)});
+`;
+}
+
+/**
+ * Generate a size-aware component that delegates to its per-size variants
+ */
+function generateSizedComponentCode(
+  componentName: string,
+  group: IconSizeGroup,
+  nameOf: (source: ComponentSource) => string,
+  runtime: string,
+): string {
+  const imports = group.variants
+    .map(({ icon }) => `import { ${nameOf(icon)} } from './${nameOf(icon)}';`)
+    .join("\n");
+  const variants = group.variants
+    .map(({ size, icon }) => `${size}: ${nameOf(icon)}`)
+    .join(", ");
+
+  return `import { createSizedIcon } from '${runtime}';
+${imports}
+
+export const ${componentName} = createSizedIcon('${componentName}', { ${variants} });
+`;
+}
+
+/**
+ * Generate a deprecated alias rendering the icon it was renamed to
+ */
+function generateAliasCode(
+  componentName: string,
+  replacement: string,
+  runtime: string,
+): string {
+  return `import { createDeprecatedIcon } from '${runtime}';
+import { ${replacement} } from './${replacement}';
+
+/** @deprecated Renamed to ${replacement}. */
+export const ${componentName} = createDeprecatedIcon('${componentName}', '${replacement}', ${replacement});
+`;
+}
+
+/**
+ * Format generated TypeScript with prettier, falling back to the raw code
+ */
+async function formatCode(
+  code: string,
+  label: string,
+  logger: BuildContext["logger"],
+): Promise<string> {
+  try {
+    return await prettier.format(code, {
+      parser: "typescript",
+      singleQuote: true,
+      trailingComma: "es5",
+    });
+  } catch (error) {
+    logger.warn(
+      `⚠️  Prettier formatting failed for ${label}, using unformatted`,
+    );
+    return code;
+  }
+}
+
+export function createComponentWriter({
+  cache,
+  logger,
+}: BuildContext): ComponentWriter {
+  const files: string[] = [];
+  let unchanged = 0;
+
+  return {
+    async writeFile(file, code, label, message) {
+      files.push(file);
+      const written = await cache.writeFile(file, code, (raw) =>
+        formatCode(raw, label, logger),
+      );
+      if (written) {
+        logger.log(`✅ ${message}`);
+      } else {
+        unchanged++;
+      }
+    },
+    files,
+    get unchanged() {
+      return unchanged;
+    },
+  };
+}
+
+/**
+ * Component name of a source, with the configured prefix
+ */
+export function componentNameOf({ componentPrefix }: BuildContext) {
+  return ({ componentName }: ComponentSource) =>
+    `${componentPrefix}${componentName}`;
+}
+
+/**
+ * Write one component per icon, size group and deprecated alias of
+ * `framework` to `iconsDir` as `extension` files, and remove the components
+ * whose SVG was deleted or renamed. Icon files come from `generateIcon`
+ * (default: the icon's markup as a string, for Vue). Returns the component
+ * names, in barrel order, and the removed files.
+ */
+export async function writeComponents(
+  context: BuildContext,
+  framework: RuntimeFramework,
+  iconsDir: string,
+  extension: string,
+  writer: ComponentWriter,
+  generateIcon: IconCodeGenerator = generateComponentCode,
+): Promise<{ componentNames: string[]; removed: string[] }> {
+  const { icons, sizeGroups, aliases, logger } = context;
+  const nameOf = componentNameOf(context);
+  const runtime = runtimeModule(context, framework, "../Icon");
+  const fileOf = (componentName: string) =>
+    path.join(iconsDir, `${componentName}${extension}`);
+  const generated = new Set<string>();
+
+  fs.mkdirSync(iconsDir, { recursive: true });
+
+  // Process each SVG
+  for (const icon of icons) {
+    const componentName = nameOf(icon);
+    const typeLabel = icon.isMulticolor ? "(multicolor)" : "(standard)";
+    generated.add(fileOf(componentName));
+    await writer.writeFile(
+      fileOf(componentName),
+      generateIcon(componentName, icon, runtime),
+      componentName,
+      `Generated ${path.basename(fileOf(componentName))} ${typeLabel}`,
+    );
+  }
+
+  // Generate size-aware components for icons shipped in several sizes
+  for (const group of sizeGroups) {
+    const componentName = nameOf(group);
+    const sizes = group.variants.map((v) => v.size).join("/");
+    generated.add(fileOf(componentName));
+    await writer.writeFile(
+      fileOf(componentName),
+      generateSizedComponentCode(componentName, group, nameOf, runtime),
+      componentName,
+      `Generated ${path.basename(fileOf(componentName))} (sizes ${sizes})`,
+    );
+  }
+
+  // Keep renamed icons importable under their old names
+  const aliasNames = aliases.map(({ slug, target }) => {
+    const componentName = nameOf({ componentName: toPascalCase(slug), slug });
+    const replacement = nameOf({
+      componentName: toPascalCase(target),
+      slug: target,
+    });
+    return { componentName, replacement };
+  });
+
+  for (const { componentName, replacement } of aliasNames) {
+    generated.add(fileOf(componentName));
+    await writer.writeFile(
+      fileOf(componentName),
+      generateAliasCode(componentName, replacement, runtime),
+      componentName,
+      `Generated ${path.basename(fileOf(componentName))} (deprecated, renamed to ${replacement})`,
+    );
+  }
+
+  // Remove components whose SVG was deleted or renamed
+  const removed = fs
+    .readdirSync(iconsDir)
+    .filter((file) => file.endsWith(extension))
+    .map((file) => path.join(iconsDir, file))
+    .filter((file) => !generated.has(file));
+
+  for (const file of removed) {
+    fs.rmSync(file);
+    logger.log(`🗑️  Removed ${path.basename(file)}`);
+  }
+
+  return {
+    componentNames: [
+      ...[...icons, ...sizeGroups].map(nameOf),
+      ...aliasNames.map(({ componentName }) => componentName),
+    ],
+    removed,
+  };
+}
@@ -0,0 +1,352 @@
+import fs from "fs";
+import path from "path";
+import type { BuildContext, TargetOutput } from "../build-icons.js";
+import type { IconAlias } from "../icon-aliases.js";
+import {
+  CssDeclarations,
+  MODIFIERS,
+  SIZE_SCALE,
+  baseDeclarations,
+  baseSelectors,
+  formatDeclarations,
+  iconDeclarations,
+} from "../icon-css.js";
+import {
+  PALETTE_VARIABLE_PREFIX,
+  ProcessedIcon,
+  listNamedIcons,
+} from "../icon-pipeline.js";
+
+/**
+ * Modifier classes, used next to an icon class. Transforms use the rotate and
+ * scale properties, so they combine with each other and with the animations.
+ */
+function modifierRules(prefix: string): string {
+  const sizes = SIZE_SCALE.map(
+    ([name, size]) => `.${prefix}-${name} {
+  --${prefix}-size: ${size};
+}`,
+  ).join("\n");
+
+  return `
+/* Sizes; --${prefix}-size can also be set on any ancestor */
+${sizes}
+
+/* Transforms */
+.${prefix}-rotate-90 {
+  rotate: 90deg;
+}
+.${prefix}-rotate-180 {
+  rotate: 180deg;
+}
+.${prefix}-rotate-270 {
+  rotate: 270deg;
+}
+.${prefix}-flip-h {
+  scale: -1 1;
+}
+.${prefix}-flip-v {
+  scale: 1 -1;
+}
+.${prefix}-flip-h.${prefix}-flip-v {
+  scale: -1 -1;
+}
+
+/* Animations: spin turns continuously, pulse in 8 steps */
+@keyframes ${prefix}-spin {
+  to {
+    transform: rotate(360deg);
+  }
+}
+.${prefix}-spin {
+  animation: ${prefix}-spin 2s linear infinite;
+}
+.${prefix}-pulse {
+  animation: ${prefix}-spin 1s steps(8) infinite;
+}
+@media (prefers-reduced-motion: reduce) {
+  .${prefix}-spin,
+  .${prefix}-pulse {
+    animation: none;
+  }
+}
+`;
+}
+
+function toScssMap(declarations: CssDeclarations, indent: string): string {
+  return declarations
+    .map(
+      ([property, value]) =>
+        `${indent}${JSON.stringify(property)}: ${JSON.stringify(value)},`,
+    )
+    .join("\n");
+}
+
+/**
+ * Generate the SCSS partial: the icons' declarations in a map, and
+ * `@mixin {prefix}($name, $size: null)`, which styles any selector as an icon
+ */
+function generateScssPartial(
+  prefix: string,
+  cssIcons: { slug: string; icon: ProcessedIcon }[],
+  aliases: IconAlias[],
+): string {
+  const icons = cssIcons
+    .map(
+      ({ slug, icon }) => `  ${JSON.stringify(slug)}: (
+${toScssMap(iconDeclarations(icon), "    ")}
+  ),`,
+    )
+    .join("\n");
+  const aliasEntries = aliases
+    .map(
+      ({ slug, target }) =>
+        `  ${JSON.stringify(slug)}: ${JSON.stringify(target)},`,
+    )
+    .join("\n");
+
+  return `// Generated by infotravel-icons - do not edit manually
+//
+// @use "pkg:infotravel-icons/scss" as icons;
+// .notifications::before {
+//   content: "";
+//   @include icons.${prefix}(bell, lg);
+// }
+@use "sass:map";
+
+$${prefix}-base: (
+${toScssMap(baseDeclarations(prefix), "  ")}
+);
+
+$${prefix}-sizes: (
+${SIZE_SCALE.map(([name, size]) => `  ${JSON.stringify(name)}: ${size},`).join("\n")}
+);
+
+$${prefix}-icons: (
+${icons}
+);
+
+// Old names of renamed icons
+$${prefix}-aliases: (
+${aliasEntries}
+);
+
+// Style the selector as the icon $name (a slug, like the ${prefix}-* classes).
+// $size is a length or a name from $${prefix}-sizes; by default icons are 1em.
+@mixin ${prefix}($name, $size: null) {
+  @if map.has-key($${prefix}-aliases, $name) {
+    @warn "${prefix}(#{$name}) is deprecated, use ${prefix}(#{map.get($${prefix}-aliases, $name)})";
+    $name: map.get($${prefix}-aliases, $name);
+  }
+  @if not map.has-key($${prefix}-icons, $name) {
+    @error "Unknown icon #{$name}";
+  }
+  @if $size {
+    --${prefix}-size: #{map.get($${prefix}-sizes, $size) or $size};
+  }
+  @each $property, $value in map.merge($${prefix}-base, map.get($${prefix}-icons, $name)) {
+    #{$property}: #{$value};
+  }
+}
+`;
+}
+
+/**
+ * CSS target: infotravel-icons.css, one class per icon and size group plus
+ * the modifier classes, the _infotravel-icons.scss partial, and the
+ * infotravel-icons.html preview page
+ */
+export async function buildCss({
+  icons,
+  sizeGroups,
+  aliases,
+  outDir,
+  cssPrefix: prefix,
+  logger,
+  warn,
+}: BuildContext): Promise<TargetOutput> {
+  const cssFile = path.join(outDir, "infotravel-icons.css");
+  const scssFile = path.join(outDir, "_infotravel-icons.scss");
+  const htmlFile = path.join(outDir, "infotravel-icons.html");
+
+  fs.mkdirSync(outDir, { recursive: true });
+
+  // Size variants (wifi-16px, wifi-24px, ...) also get a base class (icone-wifi)
+  // using the same default source as the React `<Wifi />` component.
+  const cssIcons = listNamedIcons(icons, sizeGroups);
+  const classSlugs = [
+    ...cssIcons.map(({ slug }) => slug),
+    ...aliases.map(({ slug }) => slug),
+  ];
+
+  for (const slug of classSlugs.filter((slug) => MODIFIERS.includes(slug))) {
+    warn(
+      `${prefix}-${slug} is both an icon and a modifier class; rename the icon`,
+    );
+  }
+
+  let cssContent = `
+/* Generated by infotravel-icons */
+${baseSelectors(prefix, classSlugs).join(",\n")} {
+${formatDeclarations(baseDeclarations(prefix))}
+}
+${modifierRules(prefix)}`;
+
+  // Old class names of renamed icons share the current class's rule
+  const aliasesOf = (slug: string) =>
+    aliases.filter(({ target }) => target === slug).map((alias) => alias.slug);
+
+  cssIcons.forEach(({ slug, icon }) => {
+    // Palette overrides are not supported by the classes: background images
+    // cannot read CSS variables, and masks color a single layer, while a
+    // themed icon needs one masked layer per palette color. Themable
+    // multicolor icons on pages without React use the sprite or the Web
+    // Component, which render inline SVG.
+    const paletteComment = icon.palette.length
+      ? `\n/* Default palette only; ${PALETTE_VARIABLE_PREFIX}N overrides need the sprite or <infotravel-icon>: ${icon.palette.join(", ")} */`
+      : "";
+    const oldSlugs = aliasesOf(slug);
+    const deprecatedComment = oldSlugs.length
+      ? `\n/* Deprecated: ${oldSlugs
+          .map((old) => `${prefix}-${old}`)
+          .join(", ")}, use ${prefix}-${slug} */`
+      : "";
+    const selectors = [slug, ...oldSlugs]
+      .map((name) => `.${prefix}-${name}`)
+      .join(",\n");
+
+    cssContent += `${paletteComment}${deprecatedComment}
+${selectors} {
+${formatDeclarations(iconDeclarations(icon))}
+}
+`;
+  });
+
+  fs.writeFileSync(cssFile, cssContent);
+  logger.log(
+    `Generated ${cssFile} with ${cssIcons.length} classes (${icons.length} icons) and ${aliases.length} deprecated aliases.`,
+  );
+
+  fs.writeFileSync(scssFile, generateScssPartial(prefix, cssIcons, aliases));
+  logger.log(`Generated ${scssFile}`);
+
+  let htmlContent = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Infotravel Icons</title>
+    <link rel="stylesheet" href="infotravel-icons.css">
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+            padding: 40px;
+            background: #f5f5f7;
+            margin: 0;
+        }
+        h1 { text-align: center; margin-bottom: 40px; color: #333; }
+        p { text-align: center; margin-bottom: 30px; color: #666; }
+
+        .icon-grid {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+            gap: 24px;
+            max-width: 1200px;
+            margin: 0 auto;
+        }
+
+        .icon-item {
+            background-color: #fff;
+            border-radius: 12px;
+            padding: 24px;
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            justify-content: center;
+            box-shadow: 0 2px 8px rgba(0,0,0,0.05);
+            transition: transform 0.2s, box-shadow 0.2s;
+            height: 160px;
+        }
+
+        .icon-item:hover {
+            transform: translateY(-2px);
+            box-shadow: 0 4px 12px rgba(0,0,0,0.1);
+        }
+
+        /* Dark mode card */
+        .icon-item.dark {
+            background-color: #2d2d2d;
+            color: #fff;
+            border: 1px solid #444;
+        }
+
+        .icon-item i {
+            font-size: 32px;
+            margin-bottom: 16px;
+            display: inline-block;
+            width: 1em;
+            height: 1em;
+        }
+
+        code {
+            display: block;
+            font-size: 11px;
+            font-family: 'SFMono-Regular', Consolas, 'Liberation Mono', Menlo, monospace;
+            color: #86868b;
+            word-break: break-word;
+            background: #f5f5f7;
+            padding: 4px 8px;
+            border-radius: 4px;
+            margin-top: auto;
+            max-width: 100%;
+        }
+
+        .icon-item.dark code {
+            background: #444;
+            color: #ccc;
+        }
+
+        .icon-item.big i {
+            font-size: 48px;
+        }
+    </style>
+</head>
+<body>
+    <h1>Infotravel Icons Preview</h1>
+    <p>Icons are displayed on both light and dark backgrounds to ensure visibility.</p>
+    <div class="icon-grid">
+`;
+
+  cssIcons.forEach(({ slug }) => {
+    // Generate two previews per icon: one light, one dark
+    htmlContent += `
+        <div class="icon-item">
+            <i class="${prefix}-${slug}"></i>
+            <code>${prefix}-${slug}</code>
+        </div>
+        <div class="icon-item dark">
+            <i class="${prefix}-${slug}"></i>
+            <code>${prefix}-${slug}</code>
+        </div>
+        <div class="icon-item">
+            <i class="${prefix}-${slug}" style="color: #e63946;"></i>
+            <code style="color: #e63946;">color: #e63946</code>
+        </div>
+        <div class="icon-item big">
+            <i class="${prefix}-${slug}"></i>
+            <code>font-size: 48px</code>
+        </div>`;
+  });
+
+  htmlContent += `
+    </div>
+</body>
+</html>
+`;
+
+  fs.writeFileSync(htmlFile, htmlContent);
+  logger.log(`Generated ${htmlFile}`);
+
+  return { files: [cssFile, scssFile, htmlFile], removed: [] };
+}
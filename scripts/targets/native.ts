@@ -0,0 +1,152 @@
+import path from "path";
+import type { BuildContext, TargetOutput } from "../build-icons.js";
+import { IconElement, parseIconContent, toPropName } from "../icon-elements.js";
+import { ProcessedIcon } from "../icon-pipeline.js";
+import {
+  createComponentWriter,
+  iconOptionsCode,
+  runtimeModule,
+  writeComponents,
+} from "./components.js";
+
+/**
+ * react-native-svg primitive of an SVG element: path → Path, clipPath → ClipPath
+ */
+function primitiveOf(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Element as an IconNode literal, `[Primitive, props, children?]`.
+ * Attribute names become React prop names, and style declarations become
+ * props too (react-native-svg has no style sheet), overriding attributes
+ * like they do in CSS.
+ */
+function toNodeCode(element: IconElement, primitives: Set<string>): string {
+  const primitive = primitiveOf(element.name);
+  primitives.add(primitive);
+
+  const props: Record<string, string> = {};
+  for (const [name, value] of Object.entries(element.attributes)) {
+    props[toPropName(name)] = value;
+  }
+  for (const [property, value] of element.style) {
+    props[toPropName(property)] = value;
+  }
+
+  const propsCode = Object.entries(props)
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+    .join(", ");
+  const children = element.children.map((child) =>
+    toNodeCode(child, primitives),
+  );
+
+  return children.length > 0
+    ? `[${primitive}, { ${propsCode} }, [${children.join(", ")}]]`
+    : `[${primitive}, { ${propsCode} }]`;
+}
+
+/**
+ * Generate a React Native component: the icon's elements as react-native-svg
+ * primitives, rendered by native/Icon.tsx
+ */
+function generateNativeComponentCode(
+  componentName: string,
+  icon: ProcessedIcon,
+  runtime: string,
+): string {
+  const primitives = new Set<string>();
+  const nodes = parseIconContent(icon.svgContent).map((element) =>
+    toNodeCode(element, primitives),
+  );
+
+  return `import { ${[...primitives].sort().join(", ")} } from 'react-native-svg';
+import { createIcon } from '${runtime}';
+
+export const ${componentName} = createIcon('${componentName}', [${nodes.join(", ")}], ${icon.isMulticolor}, '${icon.viewBox}', ${iconOptionsCode(icon)});
+`;
+}
+
+/**
+ * Generate native/index.ts barrel export
+ */
+function generateIndexFile(
+  componentNames: string[],
+  runtime: string,
+  context: string,
+  types: string,
+): string {
+  const exports = componentNames
+    .map(
+      (componentName) =>
+        `export { ${componentName} } from './icons/${componentName}';`,
+    )
+    .join("\n");
+
+  return `// Auto-generated file - do not edit manually
+export type {
+  IconComponent,
+  IconNode,
+  IconOptions,
+  IconProps,
+} from '${runtime}';
+export {
+  createDeprecatedIcon,
+  createIcon,
+  createSizedIcon,
+} from '${runtime}';
+export type {
+  IconAccessibilityMode,
+  IconContextValue,
+  IconProviderProps,
+} from '${context}';
+export { IconContext, IconProvider } from '${context}';
+export type {
+  IconColorMode,
+  IconManifestEntry,
+  IconRenderMode,
+} from '${types}';
+
+${exports}
+`;
+}
+
+/**
+ * React Native target: one react-native-svg component per icon, size group
+ * and deprecated alias in `srcDir/native/icons`, plus the native/index.ts
+ * barrel. Files whose code did not change are left alone, and components
+ * without an icon are removed.
+ */
+export async function buildNative(
+  context: BuildContext,
+): Promise<TargetOutput> {
+  const nativeDir = path.join(context.srcDir, "native");
+  const writer = createComponentWriter(context);
+
+  const { componentNames, removed } = await writeComponents(
+    context,
+    "native",
+    path.join(nativeDir, "icons"),
+    ".ts",
+    writer,
+    generateNativeComponentCode,
+  );
+
+  await writer.writeFile(
+    path.join(nativeDir, "index.ts"),
+    generateIndexFile(
+      componentNames,
+      runtimeModule(context, "native", "./Icon"),
+      runtimeModule(context, "native", "../IconContext"),
+      runtimeModule(context, "native", "../types"),
+    ),
+    "native/index.ts",
+    `Generated native/index.ts with ${componentNames.length} exports`,
+  );
+
+  context.logger.log(
+    `Generated ${writer.files.length} React Native files (${writer.unchanged} unchanged, ${removed.length} removed).`,
+  );
+
+  return { files: writer.files, removed };
+}
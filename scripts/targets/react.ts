@@ -0,0 +1,327 @@
+import fs from "fs";
+import path from "path";
+import type { IconManifestEntry } from "../../src/types.js";
+import type {
+  BuildContext,
+  BuildRuntime,
+  TargetOutput,
+} from "../build-icons.js";
+import {
+  IconElement,
+  parseIconContent,
+  toReactProps,
+} from "../icon-elements.js";
+import { buildManifest } from "../icon-manifest.js";
+import {
+  ID_PLACEHOLDER,
+  ProcessedIcon,
+  listNamedIcons,
+} from "../icon-pipeline.js";
+import {
+  ComponentSource,
+  componentNameOf,
+  createComponentWriter,
+  iconOptionsCode,
+  runtimeModule,
+  writeComponents,
+} from "./components.js";
+
+/**
+ * Attribute value as an expression; ids become a template literal on the
+ * content function's `id` parameter
+ */
+function valueExpression(value: string): string {
+  if (!value.includes(ID_PLACEHOLDER)) return JSON.stringify(value);
+  const template = value
+    .replace(/[`\\$]/g, "\\$&")
+    .split(ID_PLACEHOLDER)
+    .join("${id}");
+  return `\`${template}\``;
+}
+
+function attributeCode(name: string, value: string): string {
+  // JSX attribute strings have no escapes and decode entities
+  return /^[^"&{}<>\\]*$/.test(value) && !value.includes(ID_PLACEHOLDER)
+    ? `${name}="${value}"`
+    : `${name}={${valueExpression(value)}}`;
+}
+
+/**
+ * Element as JSX, with attribute names converted to React props. When
+ * `inheritsNoStroke`, the root <svg> of a fill-mode icon already sets
+ * stroke="none", so the element's own stroke="none" is left out.
+ */
+function toJsx(element: IconElement, inheritsNoStroke: boolean): string {
+  const { props, style } = toReactProps(element);
+  if (inheritsNoStroke && props.stroke === "none") delete props.stroke;
+  const childrenInheritNoStroke =
+    inheritsNoStroke &&
+    props.stroke === undefined &&
+    style.stroke === undefined;
+  const attributes = Object.entries(props).map(([name, value]) =>
+    attributeCode(name, value),
+  );
+  if (Object.keys(style).length > 0) {
+    const declarations = Object.entries(style)
+      .map(
+        ([name, value]) => `${JSON.stringify(name)}: ${valueExpression(value)}`,
+      )
+      .join(", ");
+    attributes.push(`style={{ ${declarations} }}`);
+  }
+
+  const open = [element.name, ...attributes].join(" ");
+  return element.children.length > 0
+    ? `<${open}>${element.children
+        .map((child) => toJsx(child, childrenInheritNoStroke))
+        .join("")}</${element.name}>`
+    : `<${open} />`;
+}
+
+/**
+ * Generate a React component whose content is JSX, so no markup is injected
+ * as HTML. Content that references ids is a function of the instance's id
+ * namespace.
+ */
+function generateComponentCode(
+  componentName: string,
+  icon: ProcessedIcon,
+  runtime: string,
+): string {
+  const elements = parseIconContent(icon.svgContent);
+  const inheritsNoStroke = !icon.isMulticolor && icon.renderMode === "fill";
+  const children = elements.map((element) => toJsx(element, inheritsNoStroke));
+  const jsx = children.length === 1 ? children[0] : `<>${children.join("")}</>`;
+  const content = icon.svgContent.includes(ID_PLACEHOLDER)
+    ? `(id) => (${jsx})`
+    : jsx;
+
+  // Classic runtime in apps compiling src with the automatic one (the preview),
+  // matching how the package itself is built
+  return `/** @jsxRuntime classic */
+import React from 'react';
+import { createIcon } from '${runtime}';
+
+export const ${componentName} = createIcon('${componentName}', ${content}, ${icon.isMulticolor}, '${icon.viewBox}', ${iconOptionsCode(icon)});
+`;
+}
+
+/**
+ * Generate manifest.ts exporting the manifest as a typed constant
+ */
+function generateManifestFile(
+  manifest: IconManifestEntry[],
+  types: string,
+): string {
+  return `// Auto-generated file - do not edit manually
+import type { IconManifestEntry } from '${types}';
+
+export const iconManifest: readonly IconManifestEntry[] = ${JSON.stringify(manifest, null, 2)};
+`;
+}
+
+/**
+ * Generate loaders.ts: the IconName union and one import() loader per icon,
+ * keyed by slug, for DynamicIcon
+ */
+function generateLoadersFile(
+  sources: ComponentSource[],
+  nameOf: (source: ComponentSource) => string,
+  runtime: string,
+): string {
+  const entries = [...sources].sort((a, b) => a.slug.localeCompare(b.slug));
+  const names = entries.map(({ slug }) => `  | '${slug}'`).join("\n");
+  const loaders = entries
+    .map(
+      (source) =>
+        `  '${source.slug}': () => import('./icons/${nameOf(source)}').then((m) => m.${nameOf(source)}),`,
+    )
+    .join("\n");
+
+  return `// Auto-generated file - do not edit manually
+import type { IconComponent } from '${runtime}';
+
+export type IconName =
+${names};
+
+export const iconLoaders: Record<IconName, () => Promise<IconComponent>> = {
+${loaders}
+};
+`;
+}
+
+/**
+ * Generate spriteIcons.ts: viewBox and paint options of the stroke-based
+ * sprite symbols, keyed by slug. Symbols carry no stroke width, so SpriteIcon
+ * sets the icon's own width (or the strokeWidth prop) on its <svg>.
+ */
+function generateSpriteIconsFile(
+  symbols: { slug: string; icon: ProcessedIcon }[],
+): string {
+  const entries = symbols
+    .filter(({ icon }) => !icon.isMulticolor && icon.renderMode !== "fill")
+    .sort((a, b) => a.slug.localeCompare(b.slug))
+    .map(
+      ({ slug, icon }) =>
+        `  '${slug}': ['${icon.viewBox}', ${iconOptionsCode(icon)}],`,
+    )
+    .join("\n");
+
+  return `// Auto-generated file - do not edit manually
+import type { IconOptions } from './iconRendering';
+
+export const spriteIcons: Record<string, [viewBox: string, options: IconOptions]> = {
+${entries}
+};
+`;
+}
+
+/** Runtime re-exported by the barrel of a local build */
+const LOCAL_RUNTIME_EXPORTS = `export type {
+  IconContent,
+  IconOptions,
+  IconProps,
+  SpriteIconProps,
+} from './Icon';
+export {
+  createDeprecatedIcon,
+  createIcon,
+  createSizedIcon,
+  SpriteIcon,
+} from './Icon';
+export type { IconComponent } from './Icon';
+export type { DynamicIconProps } from './DynamicIcon';
+export { DynamicIcon, isIconName, registerIcons } from './DynamicIcon';
+export type {
+  IconAccessibilityMode,
+  IconContextValue,
+  IconProviderProps,
+} from './IconContext';
+export { IconContext, IconProvider } from './IconContext';
+export type {
+  IconColorMode,
+  IconManifestEntry,
+  IconRenderMode,
+} from './types';`;
+
+/**
+ * Runtime re-exported by the barrel of an icon pack using the package
+ * runtime. DynamicIcon and SpriteIcon are bound to this package's icons, so
+ * the pack's loaders are exported instead.
+ */
+const PACKAGE_RUNTIME_EXPORTS = `export type {
+  IconAccessibilityMode,
+  IconColorMode,
+  IconComponent,
+  IconContent,
+  IconContextValue,
+  IconManifestEntry,
+  IconOptions,
+  IconProps,
+  IconProviderProps,
+  IconRenderMode,
+} from 'infotravel-icons';
+export {
+  createDeprecatedIcon,
+  createIcon,
+  createSizedIcon,
+  IconContext,
+  IconProvider,
+} from 'infotravel-icons';
+export { iconLoaders } from './loaders';`;
+
+/**
+ * Generate index.ts barrel export
+ */
+function generateIndexFile(
+  componentNames: string[],
+  runtime: BuildRuntime,
+): string {
+  const exports = componentNames
+    .map(
+      (componentName) =>
+        `export { ${componentName} } from './icons/${componentName}';`,
+    )
+    .join("\n");
+
+  return `// Auto-generated file - do not edit manually
+${runtime === "local" ? LOCAL_RUNTIME_EXPORTS : PACKAGE_RUNTIME_EXPORTS}
+export type { IconName } from './loaders';
+export { iconManifest } from './manifest';
+
+${exports}
+`;
+}
+
+/**
+ * React target: one component per icon and size group in `srcDir/icons`,
+ * plus manifest.ts, loaders.ts, spriteIcons.ts and the index.ts barrel; the
+ * manifest is also
+ * written to `outDir/icons.json`. Files whose code did not change are left
+ * alone, and components without an icon are removed.
+ */
+export async function buildReact(context: BuildContext): Promise<TargetOutput> {
+  const { icons, sizeGroups, outDir, srcDir, cssPrefix, componentPrefix } =
+    context;
+  const nameOf = componentNameOf(context);
+  const writer = createComponentWriter(context);
+
+  const { componentNames, removed } = await writeComponents(
+    context,
+    "react",
+    path.join(srcDir, "icons"),
+    ".tsx",
+    writer,
+    generateComponentCode,
+  );
+
+  // Generate manifest.ts and icons.json
+  const manifest = buildManifest(icons, sizeGroups, cssPrefix, componentPrefix);
+  await writer.writeFile(
+    path.join(srcDir, "manifest.ts"),
+    generateManifestFile(manifest, runtimeModule(context, "react", "./types")),
+    "manifest.ts",
+    `Generated manifest.ts with ${manifest.length} entries`,
+  );
+
+  const manifestJson = path.join(outDir, "icons.json");
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(manifestJson, JSON.stringify(manifest, null, 2) + "\n");
+  writer.files.push(manifestJson);
+
+  // Generate loaders.ts for DynamicIcon
+  await writer.writeFile(
+    path.join(srcDir, "loaders.ts"),
+    generateLoadersFile(
+      [...icons, ...sizeGroups],
+      nameOf,
+      runtimeModule(context, "react", "./Icon"),
+    ),
+    "loaders.ts",
+    "Generated loaders.ts",
+  );
+
+  // Generate spriteIcons.ts for SpriteIcon, which only local builds ship
+  if (context.runtime === "local") {
+    await writer.writeFile(
+      path.join(srcDir, "spriteIcons.ts"),
+      generateSpriteIconsFile(listNamedIcons(icons, sizeGroups)),
+      "spriteIcons.ts",
+      "Generated spriteIcons.ts",
+    );
+  }
+
+  // Generate index.ts
+  await writer.writeFile(
+    path.join(srcDir, "index.ts"),
+    generateIndexFile(componentNames, context.runtime),
+    "index.ts",
+    `Generated index.ts with ${componentNames.length} exports`,
+  );
+
+  context.logger.log(
+    `Generated ${writer.files.length} React files (${writer.unchanged} unchanged, ${removed.length} removed).`,
+  );
+
+  return { files: writer.files, removed };
+}
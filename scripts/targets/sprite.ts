@@ -0,0 +1,57 @@
+import fs from "fs";
+import path from "path";
+import type { BuildContext, TargetOutput } from "../build-icons.js";
+import {
+  ProcessedIcon,
+  listNamedIcons,
+  rootPaintAttributes,
+  scopeIds,
+} from "../icon-pipeline.js";
+
+const INHERIT = "inherit";
+
+/**
+ * Paint that follows the color prop is left unset, so symbols inherit it from
+ * the <svg> that <use>s them (SpriteIcon sets fill and stroke to the color
+ * prop). Paint createIcon resets to "none" is reset on the symbol as well.
+ * The stroke width is left to the <svg> too, where it can be overridden.
+ */
+function toSymbol(id: string, icon: ProcessedIcon): string {
+  const attrs = Object.entries(rootPaintAttributes(icon, INHERIT))
+    .filter(([name, value]) => value !== INHERIT && name !== "stroke-width")
+    .map(([name, value]) => ` ${name}="${value}"`)
+    .join("");
+  // Ids are namespaced per symbol, since all symbols share one document
+  return `<symbol id="${id}" viewBox="${icon.viewBox}"${attrs}>${scopeIds(icon.svgContent, id)}</symbol>`;
+}
+
+/**
+ * Sprite target: infotravel-icons-sprite.svg with one <symbol> per icon
+ */
+export async function buildSprite({
+  icons,
+  sizeGroups,
+  outDir,
+  cssPrefix,
+  logger,
+}: BuildContext): Promise<TargetOutput> {
+  const spriteFile = path.join(outDir, "infotravel-icons-sprite.svg");
+
+  fs.mkdirSync(outDir, { recursive: true });
+
+  // Size groups get a symbol too, using the same default source as <Wifi />
+  const symbols = listNamedIcons(icons, sizeGroups).sort((a, b) =>
+    a.slug.localeCompare(b.slug),
+  );
+
+  const spriteContent = `<svg xmlns="http://www.w3.org/2000/svg" style="display: none">
+<!-- Generated by infotravel-icons -->
+${symbols.map(({ slug, icon }) => toSymbol(`${cssPrefix}-${slug}`, icon)).join("\n")}
+</svg>
+`;
+
+  fs.writeFileSync(spriteFile, spriteContent);
+  logger.log(`Generated ${spriteFile} with ${symbols.length} symbols.`);
+
+  return { files: [spriteFile], removed: [] };
+}
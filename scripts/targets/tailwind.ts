@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import type { BuildContext, TargetOutput } from "../build-icons.js";
+import {
+  CssDeclarations,
+  baseDeclarations,
+  baseSelectors,
+  iconDeclarations,
+} from "../icon-css.js";
+import { listNamedIcons } from "../icon-pipeline.js";
+
+function toStyleObject(declarations: CssDeclarations): Record<string, string> {
+  return Object.fromEntries(declarations);
+}
+
+/**
+ * Tailwind target: tailwind.js, a plugin with one utility per icon (using
+ * the same data URIs as infotravel-icons.css), and its tailwind.d.ts
+ */
+export async function buildTailwind({
+  icons,
+  sizeGroups,
+  outDir,
+  cssPrefix,
+  logger,
+}: BuildContext): Promise<TargetOutput> {
+  const pluginFile = path.join(outDir, "tailwind.js");
+  const typesFile = path.join(outDir, "tailwind.d.ts");
+
+  fs.mkdirSync(outDir, { recursive: true });
+
+  const namedIcons = listNamedIcons(icons, sizeGroups).sort((a, b) =>
+    a.slug.localeCompare(b.slug),
+  );
+
+  const iconStyles = Object.fromEntries(
+    namedIcons.map(({ slug, icon }) => [
+      slug,
+      toStyleObject(iconDeclarations(icon)),
+    ]),
+  );
+
+  // Prefixes such as "ico-x" are not valid identifiers as an object key
+  const utilityKey = /^[A-Za-z_$][\w$]*$/.test(cssPrefix)
+    ? cssPrefix
+    : JSON.stringify(cssPrefix);
+
+  // The base rule goes to Tailwind's base layer, so `size-*` utilities win over
+  // its 1em default, while `text-*` drives the color through currentColor.
+  // matchUtilities only emits the icone-* classes found in the content files.
+  const pluginContent = `// Generated by infotravel-icons - do not edit manually
+"use strict";
+
+const base = ${JSON.stringify(toStyleObject(baseDeclarations(cssPrefix)), null, 2)};
+
+const icons = ${JSON.stringify(iconStyles)};
+
+function infotravelIcons({ addBase, matchUtilities }) {
+  addBase({
+    ${JSON.stringify(baseSelectors(cssPrefix, Object.keys(iconStyles)).join(", "))}: base,
+  });
+
+  matchUtilities(
+    {
+      ${utilityKey}: (name) => icons[name] || null,
+    },
+    {
+      values: Object.fromEntries(Object.keys(icons).map((name) => [name, name])),
+    },
+  );
+}
+
+module.exports = infotravelIcons;
+`;
+
+  const typesContent = `// Generated by infotravel-icons - do not edit manually
+type CssInJs = Record<string, Record<string, string>>;
+
+interface PluginApi {
+  addBase(base: CssInJs): void;
+  matchUtilities(
+    utilities: Record<string, (value: string) => Record<string, string> | null>,
+    options?: { values?: Record<string, string> },
+  ): void;
+}
+
+/**
+ * Tailwind CSS plugin providing \`${cssPrefix}-{name}\` utilities
+ */
+declare function infotravelIcons(api: PluginApi): void;
+
+export = infotravelIcons;
+`;
+
+  fs.writeFileSync(pluginFile, pluginContent);
+  fs.writeFileSync(typesFile, typesContent);
+  logger.log(`Generated ${pluginFile} with ${namedIcons.length} utilities.`);
+
+  return { files: [pluginFile, typesFile], removed: [] };
+}
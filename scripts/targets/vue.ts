@@ -0,0 +1,76 @@
+import path from "path";
+import type { BuildContext, TargetOutput } from "../build-icons.js";
+import {
+  createComponentWriter,
+  runtimeModule,
+  writeComponents,
+} from "./components.js";
+
+/**
+ * Generate vue/index.ts barrel export
+ */
+function generateIndexFile(
+  componentNames: string[],
+  runtime: string,
+  types: string,
+): string {
+  const exports = componentNames
+    .map(
+      (componentName) =>
+        `export { ${componentName} } from './icons/${componentName}';`,
+    )
+    .join("\n");
+
+  return `// Auto-generated file - do not edit manually
+export type { IconComponent, IconOptions } from '${runtime}';
+export {
+  createDeprecatedIcon,
+  createIcon,
+  createSizedIcon,
+  iconProps,
+} from '${runtime}';
+export type {
+  IconColorMode,
+  IconManifestEntry,
+  IconRenderMode,
+} from '${types}';
+
+${exports}
+`;
+}
+
+/**
+ * Vue target: one Vue 3 component per icon, size group and deprecated alias
+ * in `srcDir/vue/icons`, plus the vue/index.ts barrel, from the same code as
+ * the React components. Files whose code did not change are left alone, and
+ * components without an icon are removed.
+ */
+export async function buildVue(context: BuildContext): Promise<TargetOutput> {
+  const vueDir = path.join(context.srcDir, "vue");
+  const writer = createComponentWriter(context);
+
+  const { componentNames, removed } = await writeComponents(
+    context,
+    "vue",
+    path.join(vueDir, "icons"),
+    ".ts",
+    writer,
+  );
+
+  await writer.writeFile(
+    path.join(vueDir, "index.ts"),
+    generateIndexFile(
+      componentNames,
+      runtimeModule(context, "vue", "./Icon"),
+      runtimeModule(context, "vue", "../types"),
+    ),
+    "vue/index.ts",
+    `Generated vue/index.ts with ${componentNames.length} exports`,
+  );
+
+  context.logger.log(
+    `Generated ${writer.files.length} Vue files (${writer.unchanged} unchanged, ${removed.length} removed).`,
+  );
+
+  return { files: writer.files, removed };
+}
@@ -0,0 +1,339 @@
+import fs from "fs";
+import path from "path";
+import type { BuildContext, TargetOutput } from "../build-icons.js";
+import {
+  ID_PLACEHOLDER,
+  ProcessedIcon,
+  rootPaintAttributes,
+} from "../icon-pipeline.js";
+
+const HEADER = "// Generated by infotravel-icons - do not edit manually";
+
+/**
+ * Runtime of the custom element. Icon data is registered separately, so pages
+ * can ship only the icons they use.
+ */
+const ELEMENT_CODE = `${HEADER}
+const DEFAULT_SIZE = 24;
+const ID_PLACEHOLDER = ${JSON.stringify(ID_PLACEHOLDER)};
+const SVG_NS = "http://www.w3.org/2000/svg";
+const ATTRIBUTES = ["name", "size", "color", "label"];
+/** Attributes that only change how assistive technology sees the element */
+const ARIA_ATTRIBUTES = ["aria-label", "aria-labelledby"];
+const STYLE =
+  ":host { display: inline-block; line-height: 0; vertical-align: middle; } svg { display: block; }";
+
+/** Registered icons by name, each a list of variants sorted by size */
+const registry = new Map();
+/** Connected elements, re-rendered when icons are registered */
+const instances = new Set();
+let idCounter = 0;
+
+/**
+ * Resolve the pixel size a variant should be chosen for; other CSS units
+ * fall back to the default size (same rule as createSizedIcon)
+ */
+function toPixelSize(size) {
+  const match = String(size).trim().match(/^(\\d+(?:\\.\\d+)?)(px)?$/);
+  return match ? Number(match[1]) : DEFAULT_SIZE;
+}
+
+/** Variant closest to the requested size; ties go to the larger source */
+function pickVariant(variants, size) {
+  const target = toPixelSize(size);
+  return variants.reduce((best, current) =>
+    Math.abs(current.size - target) <= Math.abs(best.size - target)
+      ? current
+      : best,
+  );
+}
+
+// Modules may be evaluated during server rendering, where there is no DOM
+const BaseElement = typeof HTMLElement === "undefined" ? class {} : HTMLElement;
+
+/**
+ * <infotravel-icon name="wifi" size="24" color="#0057b8" label="Wi-Fi">
+ */
+export class InfotravelIcon extends BaseElement {
+  static get observedAttributes() {
+    return [...ATTRIBUTES, ...ARIA_ATTRIBUTES];
+  }
+
+  constructor() {
+    super();
+    this.attachShadow({ mode: "open" });
+    this._instanceId = \`infotravel-icon-\${++idCounter}\`;
+    this._label = null;
+  }
+
+  connectedCallback() {
+    instances.add(this);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    instances.delete(this);
+  }
+
+  attributeChangedCallback(name) {
+    if (!this.isConnected) return;
+    if (ARIA_ATTRIBUTES.includes(name)) {
+      this.updateAccessibility();
+    } else {
+      this.render();
+    }
+  }
+
+  render() {
+    this.updateAccessibility();
+
+    const variants = registry.get(this.getAttribute("name"));
+    if (!variants) {
+      this.shadowRoot.replaceChildren();
+      return;
+    }
+
+    const size = this.getAttribute("size") || String(DEFAULT_SIZE);
+    const variant = pickVariant(variants, size);
+    const length = /^\\d+(\\.\\d+)?$/.test(size) ? \`\${size}px\` : size;
+
+    const style = document.createElement("style");
+    style.textContent = STYLE;
+
+    const svg = document.createElementNS(SVG_NS, "svg");
+    svg.setAttribute("viewBox", variant.viewBox);
+    for (const [name, value] of Object.entries(variant.attributes)) {
+      svg.setAttribute(name, value);
+    }
+    svg.setAttribute("aria-hidden", "true");
+    svg.style.width = length;
+    svg.style.height = length;
+    const color = this.getAttribute("color");
+    if (color) svg.style.color = color;
+    // Ids in the content are namespaced per element, like createIcon does
+    svg.innerHTML = variant.content.split(ID_PLACEHOLDER).join(this._instanceId);
+
+    this.shadowRoot.replaceChildren(style, svg);
+  }
+
+  /**
+   * Labelled icons (label, aria-label or aria-labelledby) are exposed as
+   * images; unlabelled icons are decorative and hidden from assistive
+   * technology
+   */
+  updateAccessibility() {
+    // Recorded first: changing aria-label below re-enters this method
+    const label = this.getAttribute("label") || null;
+    const previousLabel = this._label;
+    this._label = label;
+    if (label && this.getAttribute("aria-label") !== label) {
+      this.setAttribute("aria-label", label);
+    } else if (!label && previousLabel !== null) {
+      this.removeAttribute("aria-label");
+    }
+
+    if (this.hasAttribute("aria-label") || this.hasAttribute("aria-labelledby")) {
+      this.setAttribute("role", "img");
+      this.removeAttribute("aria-hidden");
+    } else {
+      this.removeAttribute("role");
+      this.setAttribute("aria-hidden", "true");
+    }
+  }
+}
+
+// Properties mirror the attributes, for frameworks that bind properties
+for (const attribute of ATTRIBUTES) {
+  Object.defineProperty(InfotravelIcon.prototype, attribute, {
+    get() {
+      return this.getAttribute(attribute);
+    },
+    set(value) {
+      if (value === null || value === undefined) {
+        this.removeAttribute(attribute);
+      } else {
+        this.setAttribute(attribute, String(value));
+      }
+    },
+  });
+}
+
+/**
+ * Register icons by name and define the element (once per tag name).
+ * Can be called again to add icons; elements already on the page update.
+ */
+export function defineIconElement(icons, tagName = "infotravel-icon") {
+  for (const [name, variants] of Object.entries(icons)) {
+    registry.set(name, variants);
+  }
+  if (typeof customElements === "undefined") return;
+  if (!customElements.get(tagName)) {
+    customElements.define(tagName, class extends InfotravelIcon {});
+  }
+  instances.forEach((element) => element.render());
+}
+`;
+
+const ELEMENT_TYPES = `${HEADER}
+export interface IconVariant {
+  /** Size in px the variant is drawn at */
+  size: number;
+  viewBox: string;
+  /** Root paint attributes (fill, stroke, stroke-width) */
+  attributes: Record<string, string>;
+  /** Optimized inner SVG */
+  content: string;
+}
+
+/** Variants of an icon, sorted by size */
+export type IconDefinition = IconVariant[];
+
+/**
+ * <infotravel-icon name="wifi" size="24" color="#0057b8" label="Wi-Fi">
+ */
+export declare class InfotravelIcon extends HTMLElement {
+  static readonly observedAttributes: string[];
+  /** Registered icon name, e.g. "wifi" or "wifi-16px" */
+  name: string | null;
+  /** Size in px or any CSS length (default: 24) */
+  size: string | null;
+  /** Color of single-color parts (default: the inherited text color) */
+  color: string | null;
+  /** Accessible name; unlabelled icons are hidden from assistive technology */
+  label: string | null;
+  render(): void;
+}
+
+/**
+ * Register icons by name and define the element (once per tag name).
+ * Can be called again to add icons; elements already on the page update.
+ */
+export declare function defineIconElement(
+  icons: Record<string, IconDefinition>,
+  tagName?: string,
+): void;
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "infotravel-icon": InfotravelIcon;
+  }
+}
+`;
+
+const ICON_TYPES = `${HEADER}
+import type { IconDefinition } from "../element.mjs";
+
+declare const icon: IconDefinition;
+export default icon;
+`;
+
+function toVariant(size: number, icon: ProcessedIcon) {
+  return {
+    size,
+    viewBox: icon.viewBox,
+    attributes: rootPaintAttributes(icon, "currentColor"),
+    content: icon.svgContent,
+  };
+}
+
+/**
+ * Web Component target: `outDir/web-component` with element.mjs (the
+ * <infotravel-icon> runtime), one module per icon and size group in icons/,
+ * and index.mjs, which registers every icon. Files whose code did not change
+ * are left alone, and modules without an icon are removed.
+ */
+export async function buildWebComponent({
+  icons,
+  sizeGroups,
+  outDir,
+  logger,
+  cache,
+}: BuildContext): Promise<TargetOutput> {
+  const componentDir = path.join(outDir, "web-component");
+  const iconsDir = path.join(componentDir, "icons");
+  const files: string[] = [];
+  let unchanged = 0;
+
+  const writeFile = async (file: string, code: string) => {
+    files.push(file);
+    const written = await cache.writeFile(file, code, async (raw) => raw);
+    if (!written) unchanged++;
+  };
+
+  fs.mkdirSync(iconsDir, { recursive: true });
+
+  for (const icon of icons) {
+    const size = icon.size ?? Number(icon.viewBox.split(/[\s,]+/)[2]);
+    await writeFile(
+      path.join(iconsDir, `${icon.slug}.mjs`),
+      `${HEADER}\nexport default [${JSON.stringify(toVariant(size, icon))}];\n`,
+    );
+    await writeFile(path.join(iconsDir, `${icon.slug}.d.mts`), ICON_TYPES);
+  }
+
+  // Size groups combine the modules of their variants
+  for (const group of sizeGroups) {
+    const imports = group.variants
+      .map(
+        ({ icon }) => `import ${icon.componentName} from "./${icon.slug}.mjs";`,
+      )
+      .join("\n");
+    const variants = group.variants
+      .map(({ icon }) => `...${icon.componentName}`)
+      .join(", ");
+    await writeFile(
+      path.join(iconsDir, `${group.slug}.mjs`),
+      `${HEADER}\n${imports}\n\nexport default [${variants}];\n`,
+    );
+    await writeFile(path.join(iconsDir, `${group.slug}.d.mts`), ICON_TYPES);
+  }
+
+  // Remove modules whose SVG was deleted or renamed
+  const generated = new Set(files);
+  const removed = fs
+    .readdirSync(iconsDir)
+    .map((file) => path.join(iconsDir, file))
+    .filter((file) => !generated.has(file));
+
+  for (const file of removed) {
+    fs.rmSync(file);
+    logger.log(`🗑️  Removed web-component/icons/${path.basename(file)}`);
+  }
+
+  await writeFile(path.join(componentDir, "element.mjs"), ELEMENT_CODE);
+  await writeFile(path.join(componentDir, "element.d.mts"), ELEMENT_TYPES);
+
+  const sources = [...icons, ...sizeGroups].sort((a, b) =>
+    a.slug.localeCompare(b.slug),
+  );
+  const indexCode = `${HEADER}
+import { defineIconElement } from "./element.mjs";
+${sources
+  .map(
+    ({ componentName, slug }) =>
+      `import ${componentName} from "./icons/${slug}.mjs";`,
+  )
+  .join("\n")}
+
+export * from "./element.mjs";
+
+defineIconElement({
+${sources
+  .map(
+    ({ componentName, slug }) => `  ${JSON.stringify(slug)}: ${componentName},`,
+  )
+  .join("\n")}
+});
+`;
+  await writeFile(path.join(componentDir, "index.mjs"), indexCode);
+  await writeFile(
+    path.join(componentDir, "index.d.mts"),
+    `${HEADER}\nexport * from "./element.mjs";\n`,
+  );
+
+  logger.log(
+    `Generated ${componentDir} with ${sources.length} icons (${unchanged} files unchanged, ${removed.length} removed).`,
+  );
+
+  return { files, removed };
+}
@@ -0,0 +1,392 @@
+import { Resvg } from "@resvg/resvg-js";
+import fs from "fs";
+import path from "path";
+import pixelmatch from "pixelmatch";
+import { PNG } from "pngjs";
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { fileURLToPath, pathToFileURL } from "url";
+import type { IconComponent } from "../src/Icon.js";
+import { buildIcons } from "./build-icons.js";
+import { iconDeclarations } from "./icon-css.js";
+import { ICON_DIR, ProcessedIcon, loadIcons } from "./icon-pipeline.js";
+
+/**
+ * Visual regression suite: rasterizes every source SVG, its React component
+ * (rendered with react-dom/server) and its CSS class, and compares each
+ * against the PNG baselines committed in visual/baselines. Components are the
+ * built dist/icons entries; the color fixtures are generated into
+ * visual/generated with the package runtime, and have their baselines in
+ * visual/baselines/fixtures.
+ *
+ *   pnpm test:visual           compare (after pnpm build), write a diff report on failure
+ *   pnpm test:visual:update    accept the current output as the baselines
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const BASELINE_DIR = path.join(__dirname, "../visual/baselines");
+const DIST_DIR = path.join(__dirname, "../dist");
+const FIXTURE_DIR = path.join(__dirname, "../fixtures/colors");
+const GENERATED_DIR = path.join(__dirname, "../visual/generated");
+const REPORT_DIR = path.join(__dirname, "../visual/report");
+
+const RENDER_SIZE = 48;
+/** Color prop / currentColor for the React and CSS outputs */
+const COLOR = "#e63946";
+
+type Output = "source" | "react" | "css";
+
+const OUTPUTS: Output[] = ["source", "react", "css"];
+
+/** A folder of SVGs, the folder of their baselines and their components */
+interface Suite {
+  name: string;
+  iconDir: string;
+  baselineDir: string;
+  /** Module exporting a component */
+  componentModule(componentName: string): string;
+  /** Generates the components before rendering */
+  generate?(): Promise<unknown>;
+}
+
+const SUITES: Suite[] = [
+  {
+    name: "icons",
+    iconDir: ICON_DIR,
+    baselineDir: BASELINE_DIR,
+    componentModule: (componentName) =>
+      path.join(DIST_DIR, "icons", `${componentName}.mjs`),
+  },
+  {
+    name: "fixtures",
+    iconDir: FIXTURE_DIR,
+    baselineDir: path.join(BASELINE_DIR, "fixtures"),
+    componentModule: (componentName) =>
+      path.join(GENERATED_DIR, "icons", `${componentName}.tsx`),
+    generate: () =>
+      buildIcons({
+        iconDir: FIXTURE_DIR,
+        srcDir: GENERATED_DIR,
+        outDir: GENERATED_DIR,
+        runtime: "package",
+        targets: ["react"],
+        cacheDir: false,
+      }),
+  },
+];
+
+/** A suite with its icons and their components, keyed by slug */
+interface LoadedSuite {
+  suite: Suite;
+  icons: ProcessedIcon[];
+  components: Map<string, IconComponent>;
+}
+
+interface Raster {
+  width: number;
+  height: number;
+  /** RGBA pixels */
+  data: Buffer;
+}
+
+interface Failure {
+  suite: string;
+  output: Output;
+  slug: string;
+  reason: string;
+  expected?: Raster;
+  actual: Raster;
+  diff?: Raster;
+}
+
+/**
+ * resvg does not support CSS variables, so palette variables are replaced by
+ * their fallback (the original color), as a browser renders them by default
+ */
+function resolvePaletteVariables(svg: string): string {
+  return svg.replace(/var\(--[\w-]+,\s*([^)]+)\)/g, "$1");
+}
+
+function rasterize(svg: string): Raster {
+  const image = new Resvg(resolvePaletteVariables(svg), {
+    fitTo: { mode: "width", value: RENDER_SIZE },
+    font: { loadSystemFonts: false },
+  }).render();
+
+  // resvg pixels are premultiplied; PNG and compositing use straight alpha
+  const data = Buffer.from(image.pixels);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3];
+    if (alpha === 0 || alpha === 255) continue;
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = Math.round((data[i + c] * 255) / alpha);
+    }
+  }
+
+  return { width: image.width, height: image.height, data };
+}
+
+function renderSource(icon: ProcessedIcon, { suite }: LoadedSuite): Raster {
+  return rasterize(
+    fs.readFileSync(path.join(suite.iconDir, icon.fileName), "utf-8"),
+  );
+}
+
+function renderReact(icon: ProcessedIcon, { components }: LoadedSuite): Raster {
+  const Icon = components.get(icon.slug)!;
+  return rasterize(
+    renderToStaticMarkup(
+      React.createElement(Icon, { size: RENDER_SIZE, color: COLOR }),
+    ),
+  );
+}
+
+function decodeDataUris(value: string | undefined): string[] {
+  return [
+    ...(value ?? "").matchAll(/url\('data:image\/svg\+xml;base64,([^']+)'\)/g),
+  ].map((match) => Buffer.from(match[1], "base64").toString("utf-8"));
+}
+
+/**
+ * Composite a CSS class the way a browser paints it: the background
+ * (overlay image over currentColor) clipped by the mask's alpha channel
+ */
+function renderCss(icon: ProcessedIcon): Raster {
+  const declarations = new Map(iconDeclarations(icon));
+
+  const [backgroundImage] = decodeDataUris(
+    declarations.get("background-image"),
+  );
+  if (backgroundImage) return rasterize(backgroundImage);
+
+  const mask = rasterize(decodeDataUris(declarations.get("mask-image"))[0]);
+  const [overlaySvg] = decodeDataUris(declarations.get("background"));
+  const overlay = overlaySvg ? rasterize(overlaySvg) : null;
+
+  const color = [1, 3, 5].map((i) => parseInt(COLOR.slice(i, i + 2), 16));
+  const data = Buffer.alloc(mask.data.length);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const overlayAlpha = overlay ? overlay.data[i + 3] / 255 : 0;
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = Math.round(
+        (overlay ? overlay.data[i + c] * overlayAlpha : 0) +
+          color[c] * (1 - overlayAlpha),
+      );
+    }
+    data[i + 3] = mask.data[i + 3];
+  }
+
+  return { width: mask.width, height: mask.height, data };
+}
+
+const RENDERERS: Record<
+  Output,
+  (icon: ProcessedIcon, loaded: LoadedSuite) => Raster
+> = {
+  source: renderSource,
+  react: renderReact,
+  css: renderCss,
+};
+
+function readPng(file: string): Raster {
+  const png = PNG.sync.read(fs.readFileSync(file));
+  return { width: png.width, height: png.height, data: png.data };
+}
+
+function writePng(file: string, raster: Raster) {
+  const png = new PNG({ width: raster.width, height: raster.height });
+  raster.data.copy(png.data);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, PNG.sync.write(png));
+}
+
+function baselinePath(suite: Suite, output: Output, slug: string): string {
+  return path.join(suite.baselineDir, output, `${slug}.png`);
+}
+
+function compare(
+  suite: Suite,
+  output: Output,
+  slug: string,
+  actual: Raster,
+): Failure | null {
+  const file = baselinePath(suite, output, slug);
+  if (!fs.existsSync(file)) {
+    return { suite: suite.name, output, slug, reason: "no baseline", actual };
+  }
+
+  const expected = readPng(file);
+  if (expected.width !== actual.width || expected.height !== actual.height) {
+    return {
+      suite: suite.name,
+      output,
+      slug,
+      reason: `size changed from ${expected.width}x${expected.height} to ${actual.width}x${actual.height}`,
+      expected,
+      actual,
+    };
+  }
+
+  const diff = Buffer.alloc(actual.data.length);
+  const mismatched = pixelmatch(
+    expected.data,
+    actual.data,
+    diff,
+    actual.width,
+    actual.height,
+    { threshold: 0.1 },
+  );
+  if (mismatched === 0) return null;
+
+  return {
+    suite: suite.name,
+    output,
+    slug,
+    reason: `${mismatched} pixels differ`,
+    expected,
+    actual,
+    diff: { width: actual.width, height: actual.height, data: diff },
+  };
+}
+
+/**
+ * Write expected/actual/diff images and an HTML page listing every failure
+ */
+function writeReport(failures: Failure[]): string {
+  fs.rmSync(REPORT_DIR, { recursive: true, force: true });
+
+  const rows = failures.map((failure) => {
+    const name = `${failure.suite}-${failure.output}-${failure.slug}`;
+    const images = (["expected", "actual", "diff"] as const).map((kind) => {
+      const raster = failure[kind];
+      if (!raster) return "<td>-</td>";
+      writePng(path.join(REPORT_DIR, `${name}.${kind}.png`), raster);
+      return `<td><img src="${name}.${kind}.png" alt="${kind}"></td>`;
+    });
+    return `
+        <tr>
+            <td><code>${failure.slug}</code><br>${failure.suite}, ${failure.output}</td>
+            ${images.join("")}
+            <td>${failure.reason}</td>
+        </tr>`;
+  });
+
+  const reportFile = path.join(REPORT_DIR, "index.html");
+  fs.writeFileSync(
+    reportFile,
+    `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Infotravel Icons - Visual Regressions</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; padding: 40px; }
+        td, th { padding: 8px 16px; border-bottom: 1px solid #eee; text-align: left; }
+        img { width: ${RENDER_SIZE * 2}px; image-rendering: pixelated; background: #f5f5f7; }
+    </style>
+</head>
+<body>
+    <h1>${failures.length} visual regressions</h1>
+    <table>
+        <tr><th>Icon</th><th>Baseline</th><th>Actual</th><th>Diff</th><th></th></tr>${rows.join("")}
+    </table>
+</body>
+</html>
+`,
+  );
+  return reportFile;
+}
+
+/**
+ * Generate a suite's components if needed, and import one per icon
+ */
+async function loadSuite(suite: Suite): Promise<LoadedSuite> {
+  await suite.generate?.();
+  const icons = loadIcons(suite.iconDir);
+  const components = new Map<string, IconComponent>();
+
+  for (const icon of icons) {
+    const file = suite.componentModule(icon.componentName);
+    if (!fs.existsSync(file)) {
+      throw new Error(`${file} is missing, run \`pnpm build\` first`);
+    }
+    const module = await import(pathToFileURL(file).href);
+    components.set(icon.slug, module[icon.componentName]);
+  }
+
+  return { suite, icons, components };
+}
+
+async function main() {
+  const update = process.argv.includes("--update");
+  const suites: LoadedSuite[] = [];
+  for (const suite of SUITES) suites.push(await loadSuite(suite));
+  const total = suites.reduce((sum, { icons }) => sum + icons.length, 0);
+
+  console.log(
+    `🖼️  Rendering ${suites
+      .map(({ suite, icons }) => `${icons.length} ${suite.name}`)
+      .join(" and ")} (${OUTPUTS.join(", ")})...\n`,
+  );
+
+  const failures: Failure[] = [];
+  let written = 0;
+
+  for (const loaded of suites) {
+    const { suite, icons } = loaded;
+    for (const output of OUTPUTS) {
+      for (const icon of icons) {
+        const actual = RENDERERS[output](icon, loaded);
+        const failure = compare(suite, output, icon.slug, actual);
+        if (!failure) continue;
+
+        if (update) {
+          writePng(baselinePath(suite, output, icon.slug), actual);
+          written++;
+        } else {
+          failures.push(failure);
+        }
+      }
+    }
+  }
+
+  if (update) {
+    // Drop baselines of icons that no longer exist
+    let removed = 0;
+    for (const { suite, icons } of suites) {
+      const slugs = new Set(icons.map((icon) => `${icon.slug}.png`));
+      for (const output of OUTPUTS) {
+        const dir = path.join(suite.baselineDir, output);
+        for (const file of fs.existsSync(dir) ? fs.readdirSync(dir) : []) {
+          if (!slugs.has(file)) {
+            fs.rmSync(path.join(dir, file));
+            removed++;
+          }
+        }
+      }
+    }
+    console.log(`✅ Baselines updated: ${written} written, ${removed} removed`);
+    return;
+  }
+
+  if (failures.length > 0) {
+    for (const failure of failures) {
+      console.log(
+        `❌ ${failure.output.padEnd(6)} ${failure.suite === "icons" ? "" : `${failure.suite}/`}${failure.slug}: ${failure.reason}`,
+      );
+    }
+    console.log(`\n📝 Diff report: ${writeReport(failures)}`);
+    console.log("   Run `pnpm test:visual:update` to accept intended changes.");
+    process.exit(1);
+  }
+
+  console.log(`✨ All ${total * OUTPUTS.length} renders match their baselines`);
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+import React from "react";
+import type { IconComponent, IconProps } from "./Icon";
+import { type IconName, iconLoaders } from "./loaders";
+
+export interface DynamicIconProps extends IconProps {
+  /** Icon slug, e.g. "wifi" or "breakfast-16px" */
+  name: IconName;
+  /** Rendered when the name is unknown or the icon fails to load */
+  fallback?: React.ReactNode;
+  /** Rendered while the icon module is loading */
+  placeholder?: React.ReactNode;
+}
+
+// Icons resolved so far, either registered up front or loaded on demand.
+// Anything in here renders synchronously (including during SSR).
+const registry = new Map<string, IconComponent>();
+
+export function isIconName(name: string): name is IconName {
+  return Object.prototype.hasOwnProperty.call(iconLoaders, name);
+}
+
+/**
+ * Register icon components so DynamicIcon renders them synchronously,
+ * without import(). Use it on the server (or before hydration) for the icons
+ * a page needs, so SSR output contains the icons instead of placeholders.
+ */
+export function registerIcons(
+  icons: Partial<Record<IconName, IconComponent>>,
+): void {
+  (Object.keys(icons) as IconName[]).forEach((name) => {
+    const icon = icons[name];
+    if (icon) registry.set(name, icon);
+  });
+}
+
+type LoadState = { name: string } & (
+  | { status: "loaded"; icon: IconComponent }
+  | { status: "loading" }
+  | { status: "error" }
+);
+
+function getInitialState(name: string): LoadState {
+  const icon = registry.get(name);
+  if (icon) return { name, status: "loaded", icon };
+  return { name, status: isIconName(name) ? "loading" : "error" };
+}
+
+/**
+ * Renders an icon by name, loading its module with import() on first use.
+ * Keeps tree-shaking intact for apps that receive icon names as strings
+ * (CMS content, supplier feeds).
+ */
+export const DynamicIcon = React.forwardRef<SVGSVGElement, DynamicIconProps>(
+  ({ name, fallback = null, placeholder = null, ...props }, ref) => {
+    const [loadState, setState] = React.useState<LoadState>(() =>
+      getInitialState(name),
+    );
+    // Ignore a state left over from the previous name until the effect runs
+    const state = loadState.name === name ? loadState : getInitialState(name);
+
+    React.useEffect(() => {
+      const initial = getInitialState(name);
+      setState(initial);
+      if (initial.status !== "loading") return;
+
+      let cancelled = false;
+      iconLoaders[name]()
+        .then((icon) => {
+          registry.set(name, icon);
+          if (!cancelled) setState({ name, status: "loaded", icon });
+        })
+        .catch(() => {
+          if (!cancelled) setState({ name, status: "error" });
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [name]);
+
+    if (state.status === "loaded") {
+      const Icon = state.icon;
+      return <Icon ref={ref} {...props} />;
+    }
+
+    return <>{state.status === "loading" ? placeholder : fallback}</>;
+  },
+);
+
+DynamicIcon.displayName = "DynamicIcon";
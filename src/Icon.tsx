@@ -1,32 +1,274 @@
 import React from "react";
+import { IconContext, mergeClassNames } from "./IconContext";
+import {
+  DEFAULT_SIZE,
+  ID_PLACEHOLDER,
+  type IconOptions,
+  getA11yAttributes,
+  getPaint,
+  iconMarkup,
+  idNamespace,
+  paletteVariables,
+  pickVariantSize,
+  scopeIds,
+} from "./iconRendering";
+import { spriteIcons } from "./spriteIcons";
+import { useIconId } from "./useIconId";
+
+export type { IconOptions };
 
 export interface IconProps extends React.ComponentPropsWithoutRef<"svg"> {
   size?: number | string;
   color?: string;
+  /** Accessible name, rendered as <title> and wired to aria-labelledby */
+  title?: string;
+  /**
+   * Keep the stroke width constant in screen pixels regardless of `size`
+   * (stroke-based icons only)
+   */
+  absoluteStrokeWidth?: boolean;
+  /**
+   * Colors overriding a multicolor icon's palette, in palette order
+   * (`--icon-color-1`, `--icon-color-2`, ...). Undefined entries keep the
+   * original color.
+   */
+  palette?: (string | undefined)[];
+}
+
+/**
+ * Merge props with the defaults from the nearest IconProvider.
+ * Props win; classNames are combined.
+ */
+function useIconProps<P extends IconProps>(props: P) {
+  const context = React.useContext(IconContext);
+
+  return {
+    ...props,
+    size: props.size ?? context.size ?? DEFAULT_SIZE,
+    color: props.color ?? context.color ?? "currentColor",
+    strokeWidth: props.strokeWidth ?? context.strokeWidth,
+    absoluteStrokeWidth:
+      props.absoluteStrokeWidth ?? context.absoluteStrokeWidth ?? false,
+    className: mergeClassNames(context.className, props.className),
+    accessibility: context.accessibility ?? "auto",
+  };
+}
+
+function isLabelled(props: IconProps): boolean {
+  return Boolean(props["aria-label"] || props["aria-labelledby"]);
 }
 
+/**
+ * Merge palette overrides into the inline style as --icon-color-N variables
+ */
+function withPalette(
+  palette: (string | undefined)[] | undefined,
+  style: React.CSSProperties | undefined,
+): React.CSSProperties | undefined {
+  if (!palette) return style;
+  return { ...paletteVariables(palette), ...style };
+}
+
+/**
+ * Children of an icon's <svg>. Content referencing ids (clip paths, masks,
+ * gradients) is a function of the instance's id namespace. A string is
+ * injected as markup, for icons created from raw SVG.
+ */
+export type IconContent =
+  | React.ReactNode
+  | ((idNamespace: string) => React.ReactNode);
+
 export function createIcon(
   name: string,
-  svgContent: string,
+  content: IconContent,
   isMulticolor: boolean,
   viewBox: string = "0 0 24 24",
+  options: IconOptions = {},
+) {
+  const hasIds =
+    typeof content === "string" && content.includes(ID_PLACEHOLDER);
+
+  const Icon = React.forwardRef<SVGSVGElement, IconProps>((iconProps, ref) => {
+    const {
+      size,
+      color,
+      fill,
+      strokeWidth,
+      absoluteStrokeWidth,
+      accessibility,
+      title,
+      palette,
+      style,
+      ...props
+    } = useIconProps(iconProps);
+    const instanceId = useIconId();
+    const { titleId, a11yProps } = getA11yAttributes(
+      instanceId,
+      title,
+      isLabelled(props),
+      accessibility,
+    );
+    const paintProps = getPaint(isMulticolor, viewBox, options, {
+      size,
+      color,
+      fill,
+      strokeWidth,
+      absoluteStrokeWidth,
+    });
+
+    const svgProps = {
+      ref,
+      width: size,
+      height: size,
+      viewBox,
+      ...paintProps,
+      xmlns: "http://www.w3.org/2000/svg",
+      ...a11yProps,
+      style: isMulticolor ? withPalette(palette, style) : style,
+      ...props,
+    };
+
+    if (typeof content === "string") {
+      const markup = hasIds ? scopeIds(content, instanceId) : content;
+      const html = iconMarkup(markup, titleId, title);
+      return <svg {...svgProps} dangerouslySetInnerHTML={{ __html: html }} />;
+    }
+
+    return (
+      <svg {...svgProps}>
+        {titleId && <title id={titleId}>{title}</title>}
+        {typeof content === "function"
+          ? content(idNamespace(instanceId))
+          : content}
+      </svg>
+    );
+  });
+
+  Icon.displayName = name;
+
+  return Icon;
+}
+
+export type IconComponent = ReturnType<typeof createIcon>;
+
+export function createSizedIcon(
+  name: string,
+  variants: Record<number, IconComponent>,
 ) {
-  const Icon = ({ size = 24, color = "currentColor", ...props }: IconProps) => {
+  const sizes = Object.keys(variants)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  const Icon = React.forwardRef<SVGSVGElement, IconProps>(
+    ({ size, ...props }, ref) => {
+      const context = React.useContext(IconContext);
+      const Variant =
+        variants[pickVariantSize(sizes, size ?? context.size ?? DEFAULT_SIZE)];
+      return <Variant ref={ref} size={size} {...props} />;
+    },
+  );
+
+  Icon.displayName = name;
+
+  return Icon;
+}
+
+/**
+ * Old name of a renamed icon. Renders `Icon`, and outside production warns
+ * once, on first render, that `name` should be replaced by `replacement`.
+ * `process.env.NODE_ENV` is left bare for bundlers to replace, so the warning
+ * is dropped from production bundles.
+ */
+export function createDeprecatedIcon(
+  name: string,
+  replacement: string,
+  Icon: IconComponent,
+) {
+  let warned = false;
+
+  const Deprecated = React.forwardRef<SVGSVGElement, IconProps>(
+    (props, ref) => {
+      if (process.env.NODE_ENV !== "production" && !warned) {
+        warned = true;
+        console.warn(
+          `infotravel-icons: ${name} is deprecated and will be removed in the next major version, use ${replacement} instead.`,
+        );
+      }
+      return <Icon ref={ref} {...props} />;
+    },
+  );
+
+  Deprecated.displayName = name;
+
+  return Deprecated;
+}
+
+export interface SpriteIconProps extends IconProps {
+  /** Icon slug, e.g. "wifi" or "wifi-16px" (the CSS class without `icone-`) */
+  name: string;
+  /**
+   * URL of the sprite file. Leave empty when the sprite is inlined in the
+   * document; set it (e.g. "/assets/infotravel-icons-sprite.svg") to
+   * reference an external same-origin sprite instead.
+   */
+  spriteUrl?: string;
+}
+
+/**
+ * Renders an icon from `infotravel-icons-sprite.svg` through `<use>`, so
+ * every instance shares one copy of the markup.
+ */
+export const SpriteIcon = React.forwardRef<SVGSVGElement, SpriteIconProps>(
+  (iconProps, ref) => {
+    const {
+      name,
+      spriteUrl = "",
+      size,
+      color,
+      strokeWidth,
+      absoluteStrokeWidth,
+      accessibility,
+      title,
+      palette,
+      style,
+      ...props
+    } = useIconProps(iconProps);
+    const { titleId, a11yProps } = getA11yAttributes(
+      useIconId(),
+      title,
+      isLabelled(props),
+      accessibility,
+    );
+
+    // Symbols carry no stroke width: the icon's own width is applied here
+    const strokeIcon = spriteIcons[name];
+    const paintStrokeWidth = strokeIcon
+      ? getPaint(false, strokeIcon[0], strokeIcon[1], {
+          size,
+          strokeWidth,
+          absoluteStrokeWidth,
+        }).strokeWidth
+      : strokeWidth;
+
+    // Palette variables are inherited by multicolor symbols through <use>
     return (
       <svg
+        ref={ref}
         width={size}
         height={size}
-        viewBox={viewBox}
-        fill={isMulticolor ? "none" : color}
-        stroke={isMulticolor ? "none" : color}
+        fill={color}
+        stroke={color}
+        strokeWidth={paintStrokeWidth}
         xmlns="http://www.w3.org/2000/svg"
-        dangerouslySetInnerHTML={{ __html: svgContent }}
+        {...a11yProps}
+        style={withPalette(palette, style)}
         {...props}
-      />
+      >
+        {titleId && <title id={titleId}>{title}</title>}
+        <use href={`${spriteUrl}#icone-${name}`} />
+      </svg>
     );
-  };
-
-  Icon.displayName = name;
+  },
+);
 
-  return Icon;
-}
+SpriteIcon.displayName = "SpriteIcon";
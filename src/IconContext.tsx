@@ -0,0 +1,57 @@
+import React from "react";
+import type { IconAccessibilityMode } from "./iconRendering";
+
+export type { IconAccessibilityMode };
+
+export interface IconContextValue {
+  size?: number | string;
+  color?: string;
+  /** Added to every icon, before the icon's own className */
+  className?: string;
+  strokeWidth?: number | string;
+  absoluteStrokeWidth?: boolean;
+  accessibility?: IconAccessibilityMode;
+}
+
+export const IconContext = React.createContext<IconContextValue>({});
+
+export function mergeClassNames(
+  ...classNames: (string | undefined)[]
+): string | undefined {
+  const merged = classNames.filter(Boolean).join(" ");
+  return merged || undefined;
+}
+
+export interface IconProviderProps extends IconContextValue {
+  children?: React.ReactNode;
+}
+
+/**
+ * Supplies default icon props to every icon below it.
+ * Props passed to an icon still win. Nested providers merge with their
+ * parent: set values override, classNames are combined.
+ */
+export function IconProvider({ children, ...value }: IconProviderProps) {
+  const parent = React.useContext(IconContext);
+
+  const merged = React.useMemo(() => {
+    const next: IconContextValue = { ...parent };
+    (Object.keys(value) as (keyof IconContextValue)[]).forEach((key) => {
+      if (value[key] !== undefined) {
+        (next as Record<string, unknown>)[key] = value[key];
+      }
+    });
+    next.className = mergeClassNames(parent.className, value.className);
+    return next;
+  }, [
+    parent,
+    value.size,
+    value.color,
+    value.className,
+    value.strokeWidth,
+    value.absoluteStrokeWidth,
+    value.accessibility,
+  ]);
+
+  return <IconContext.Provider value={merged}>{children}</IconContext.Provider>;
+}
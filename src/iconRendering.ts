@@ -0,0 +1,188 @@
+import type { IconRenderMode } from "./types";
+
+/**
+ * Framework-agnostic parts of createIcon, shared by the React and Vue
+ * runtimes so both render the same markup
+ */
+
+export interface IconOptions {
+  /** Which paint the color prop drives, recorded by the generator */
+  renderMode?: IconRenderMode;
+  /** The icon's own stroke width, used when no strokeWidth prop is given */
+  strokeWidth?: number;
+}
+
+/**
+ * How icons get accessibility attributes.
+ * - auto: labelled icons get role="img", unlabelled icons are aria-hidden
+ * - hidden: every icon is aria-hidden, even when labelled
+ * - none: no attributes are added; the app manages them itself
+ */
+export type IconAccessibilityMode = "auto" | "hidden" | "none";
+
+export const DEFAULT_SIZE = 24;
+
+/** Prefix of ids in generated content (ID_PLACEHOLDER in the icon pipeline) */
+export const ID_PLACEHOLDER = "__icon_id__";
+
+/**
+ * Namespace of an instance's ids: useId values (":r1:") are reduced to
+ * characters safe in url(#...)
+ */
+export function idNamespace(instanceId: string): string {
+  return instanceId.replace(/[^\w-]/g, "");
+}
+
+/**
+ * Give ids in icon content (clip paths, masks, gradients) a per-instance
+ * namespace, so icons on the same page never reference each other's
+ */
+export function scopeIds(svgContent: string, instanceId: string): string {
+  return svgContent.split(ID_PLACEHOLDER).join(idNamespace(instanceId));
+}
+
+/**
+ * Accessibility attributes for the root <svg>.
+ * Labelled icons (title, aria-label or aria-labelledby) get role="img";
+ * unlabelled icons are decorative and hidden from assistive technology.
+ * Explicit attributes passed by the caller still win, as they are applied last.
+ */
+export function getA11yAttributes(
+  instanceId: string,
+  title: string | undefined,
+  isLabelled: boolean,
+  mode: IconAccessibilityMode,
+) {
+  const titleId = `${instanceId}-title`;
+  const hasTitle = title !== undefined && title !== "";
+
+  if (mode === "none") {
+    return { titleId: hasTitle ? titleId : undefined, a11yProps: {} };
+  }
+
+  if (mode === "hidden") {
+    return {
+      titleId: undefined,
+      a11yProps: { "aria-hidden": true, focusable: "false" as const },
+    };
+  }
+
+  if (hasTitle) {
+    return {
+      titleId,
+      a11yProps: { role: "img", "aria-labelledby": titleId },
+    };
+  }
+
+  if (isLabelled) {
+    return { titleId: undefined, a11yProps: { role: "img" } };
+  }
+
+  return {
+    titleId: undefined,
+    a11yProps: { "aria-hidden": true, focusable: "false" as const },
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Inner markup of an icon: its content, after a <title> when it has one
+ */
+export function iconMarkup(
+  content: string,
+  titleId: string | undefined,
+  title: string | undefined,
+): string {
+  return titleId
+    ? `<title id="${titleId}">${escapeHtml(title!)}</title>${content}`
+    : content;
+}
+
+/**
+ * Resolve the pixel size a variant should be chosen for.
+ * Unitless numbers and `px` strings are used as-is; other CSS units
+ * (rem, em, %) cannot be resolved here and fall back to the default size.
+ */
+export function toPixelSize(size: number | string): number {
+  if (typeof size === "number") return size;
+  const match = size.trim().match(/^(\d+(?:\.\d+)?)(px)?$/);
+  return match ? Number(match[1]) : DEFAULT_SIZE;
+}
+
+/**
+ * Pick the hand-tuned variant closest to the requested size.
+ * Ties go to the larger source, since downscaling keeps more detail.
+ */
+export function pickVariantSize(
+  sizes: number[],
+  size: number | string,
+): number {
+  const target = toPixelSize(size);
+  return sizes.reduce((best, current) =>
+    Math.abs(current - target) <= Math.abs(best - target) ? current : best,
+  );
+}
+
+export interface IconPaintProps {
+  size?: number | string;
+  color?: string;
+  fill?: string;
+  strokeWidth?: number | string;
+  absoluteStrokeWidth?: boolean;
+}
+
+/**
+ * Root paint attributes for an icon.
+ * `color` and `fill` drive fills only where the icon is fill-based, `color`
+ * and `strokeWidth` drive strokes only where it is stroke-based, and
+ * multicolor icons ignore all three.
+ */
+export function getPaint(
+  isMulticolor: boolean,
+  viewBox: string,
+  { renderMode = "mixed", strokeWidth: defaultStrokeWidth }: IconOptions,
+  {
+    size,
+    color,
+    fill,
+    strokeWidth = defaultStrokeWidth,
+    absoluteStrokeWidth,
+  }: IconPaintProps,
+): { fill?: string; stroke?: string; strokeWidth?: number | string } {
+  if (isMulticolor) return { fill: "none", stroke: "none" };
+  if (renderMode === "fill") return { fill: fill ?? color, stroke: "none" };
+
+  let width = strokeWidth;
+  if (absoluteStrokeWidth) {
+    // Scale by viewBox units per pixel so the rendered width stays constant
+    const viewBoxWidth = Number(viewBox.split(/[\s,]+/)[2]);
+    const pixels = toPixelSize(size ?? DEFAULT_SIZE);
+    width = (Number(strokeWidth ?? 1) * viewBoxWidth) / pixels;
+  }
+
+  return {
+    fill: renderMode === "stroke" ? "none" : (fill ?? color),
+    stroke: color,
+    strokeWidth: width,
+  };
+}
+
+/**
+ * Palette overrides as --icon-color-N variables
+ */
+export function paletteVariables(
+  palette: (string | undefined)[] | undefined,
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+  palette?.forEach((color, index) => {
+    if (color) variables[`--icon-color-${index + 1}`] = color;
+  });
+  return variables;
+}
@@ -0,0 +1,219 @@
+import React from "react";
+import Svg, { type SvgProps } from "react-native-svg";
+import { IconContext, type IconAccessibilityMode } from "../IconContext";
+import {
+  DEFAULT_SIZE,
+  ID_PLACEHOLDER,
+  type IconOptions,
+  getPaint,
+  pickVariantSize,
+  scopeIds,
+} from "../iconRendering";
+import { useIconId } from "../useIconId";
+
+export type { IconOptions };
+
+/**
+ * Element of an icon: a react-native-svg primitive (Path, G, ...), its props
+ * and its children
+ */
+export type IconNode = [React.ElementType, Record<string, string>, IconNode[]?];
+
+export interface IconProps extends Omit<
+  SvgProps,
+  "width" | "height" | "color" | "title"
+> {
+  size?: number | string;
+  color?: string;
+  /** Accessible name, read by screen readers */
+  title?: string;
+  /**
+   * Keep the stroke width constant in screen pixels regardless of `size`
+   * (stroke-based icons only)
+   */
+  absoluteStrokeWidth?: boolean;
+  /**
+   * Colors overriding a multicolor icon's palette, in palette order
+   * (`--icon-color-1`, `--icon-color-2`, ...). Undefined entries keep the
+   * original color.
+   */
+  palette?: (string | undefined)[];
+}
+
+/** Palette color reference left by the icon pipeline, with its original color */
+const PALETTE_VARIABLE = /^var\(--icon-color-(\d+),\s*(.+)\)$/;
+
+/**
+ * Resolve palette references, which react-native-svg cannot read, to the
+ * palette override or the original color
+ */
+function resolvePalette(
+  value: string,
+  palette: (string | undefined)[] | undefined,
+): string {
+  const match = value.match(PALETTE_VARIABLE);
+  if (!match) return value;
+  return palette?.[Number(match[1]) - 1] ?? match[2];
+}
+
+function renderNodes(
+  nodes: IconNode[],
+  resolve: (value: string) => string,
+): React.ReactNode[] {
+  return nodes.map(([Element, props, children], index) => {
+    const resolved: Record<string, string> = {};
+    for (const [name, value] of Object.entries(props)) {
+      resolved[name] = resolve(value);
+    }
+    return (
+      <Element key={index} {...resolved}>
+        {children && renderNodes(children, resolve)}
+      </Element>
+    );
+  });
+}
+
+/**
+ * Accessibility props for the root <Svg>, following the same rules as the
+ * web components: labelled icons (title or accessibilityLabel) are images,
+ * unlabelled icons are hidden from screen readers.
+ */
+function getA11yProps(
+  title: string | undefined,
+  isLabelled: boolean,
+  mode: IconAccessibilityMode,
+): Partial<SvgProps> {
+  const hidden = {
+    accessibilityElementsHidden: true,
+    importantForAccessibility: "no-hide-descendants" as const,
+  };
+
+  if (mode === "none") return title ? { accessibilityLabel: title } : {};
+  if (mode === "hidden") return hidden;
+  if (title) {
+    return {
+      accessible: true,
+      accessibilityRole: "image",
+      accessibilityLabel: title,
+    };
+  }
+  if (isLabelled) return { accessible: true, accessibilityRole: "image" };
+  return hidden;
+}
+
+export function createIcon(
+  name: string,
+  content: IconNode[],
+  isMulticolor: boolean,
+  viewBox: string = "0 0 24 24",
+  options: IconOptions = {},
+) {
+  const hasIds = JSON.stringify(content).includes(ID_PLACEHOLDER);
+
+  const Icon = React.forwardRef<Svg, IconProps>(
+    (
+      {
+        size: sizeProp,
+        color: colorProp,
+        fill,
+        strokeWidth: strokeWidthProp,
+        absoluteStrokeWidth: absoluteStrokeWidthProp,
+        title,
+        palette,
+        ...props
+      },
+      ref,
+    ) => {
+      const context = React.useContext(IconContext);
+      const size = sizeProp ?? context.size ?? DEFAULT_SIZE;
+      const color = colorProp ?? context.color;
+      const instanceId = useIconId();
+
+      const paintProps = getPaint(isMulticolor, viewBox, options, {
+        size,
+        color: color ?? "currentColor",
+        fill: typeof fill === "string" ? fill : undefined,
+        strokeWidth: strokeWidthProp ?? context.strokeWidth,
+        absoluteStrokeWidth:
+          absoluteStrokeWidthProp ?? context.absoluteStrokeWidth,
+      });
+      const resolve = (value: string) => {
+        const scoped = hasIds ? scopeIds(value, instanceId) : value;
+        return isMulticolor ? resolvePalette(scoped, palette) : scoped;
+      };
+
+      return (
+        <Svg
+          ref={ref}
+          width={size}
+          height={size}
+          viewBox={viewBox}
+          color={color}
+          {...paintProps}
+          {...getA11yProps(
+            title,
+            Boolean(props.accessibilityLabel),
+            context.accessibility ?? "auto",
+          )}
+          {...props}
+        >
+          {renderNodes(content, resolve)}
+        </Svg>
+      );
+    },
+  );
+
+  Icon.displayName = name;
+
+  return Icon;
+}
+
+export type IconComponent = ReturnType<typeof createIcon>;
+
+export function createSizedIcon(
+  name: string,
+  variants: Record<number, IconComponent>,
+) {
+  const sizes = Object.keys(variants)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  const Icon = React.forwardRef<Svg, IconProps>(({ size, ...props }, ref) => {
+    const context = React.useContext(IconContext);
+    const Variant =
+      variants[pickVariantSize(sizes, size ?? context.size ?? DEFAULT_SIZE)];
+    return <Variant ref={ref} size={size} {...props} />;
+  });
+
+  Icon.displayName = name;
+
+  return Icon;
+}
+
+/**
+ * Old name of a renamed icon. Renders `Icon`, and outside production warns
+ * once, on first render, that `name` should be replaced by `replacement`.
+ * `process.env.NODE_ENV` is left bare for bundlers to replace, so the warning
+ * is dropped from production bundles.
+ */
+export function createDeprecatedIcon(
+  name: string,
+  replacement: string,
+  Icon: IconComponent,
+) {
+  let warned = false;
+
+  const Deprecated = React.forwardRef<Svg, IconProps>((props, ref) => {
+    if (process.env.NODE_ENV !== "production" && !warned) {
+      warned = true;
+      console.warn(
+        `infotravel-icons: ${name} is deprecated and will be removed in the next major version, use ${replacement} instead.`,
+      );
+    }
+    return <Icon ref={ref} {...props} />;
+  });
+
+  Deprecated.displayName = name;
+
+  return Deprecated;
+}
@@ -0,0 +1,41 @@
+/**
+ * How an icon's colors are handled when rendered.
+ * - monochrome: black/white only, black follows the `color` prop
+ * - colored: non-black colors follow the `color` prop, black/white are kept
+ * - multicolor: all original colors are kept (flags, illustrations)
+ */
+export type IconColorMode = "monochrome" | "colored" | "multicolor";
+
+/**
+ * Which paint the color prop drives.
+ * - fill: filled glyphs; `color`/`fill` set the fill, strokes stay off
+ * - stroke: outline glyphs; `color` sets the stroke, `strokeWidth` applies
+ * - mixed: both filled and stroked parts follow `color`
+ */
+export type IconRenderMode = "fill" | "stroke" | "mixed";
+
+/**
+ * Entry of the generated icon manifest (`iconManifest` / `dist/icons.json`)
+ */
+export interface IconManifestEntry {
+  /** React component name, e.g. "Wifi24px" */
+  componentName: string;
+  /** Slug derived from the file name, e.g. "wifi-24px" */
+  slug: string;
+  /** CSS class name, e.g. "icone-wifi-24px" */
+  cssClass: string;
+  /** Source SVG file in public/icons (default variant for size groups) */
+  sourceFile: string;
+  viewBox: string;
+  /** Sizes in px the icon is drawn at (several for size groups) */
+  sizes: number[];
+  colorMode: IconColorMode;
+  renderMode: IconRenderMode;
+  /** Size in bytes of the optimized SVG */
+  byteSize: number;
+  /**
+   * Original colors of a multicolor icon; color N can be overridden with the
+   * CSS variable --icon-color-N or the `palette` prop. Empty otherwise.
+   */
+  palette: string[];
+}
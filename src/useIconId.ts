@@ -0,0 +1,17 @@
+import React from "react";
+
+let idCounter = 0;
+
+/**
+ * Stable unique id per component instance, for the React and React Native
+ * runtimes. Uses React.useId on React 18+ (SSR-safe); older React versions
+ * fall back to a module counter.
+ */
+export function useIconId(): string {
+  const useId = (React as { useId?: () => string }).useId;
+  // The branch is fixed for a given React version, so hook order is stable
+  if (useId) return useId();
+  const ref = React.useRef<string | null>(null);
+  if (ref.current === null) ref.current = `icon-${++idCounter}`;
+  return ref.current;
+}
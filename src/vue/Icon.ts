@@ -0,0 +1,161 @@
+import {
+  type DefineComponent,
+  type PropType,
+  defineComponent,
+  h,
+  useId,
+} from "vue";
+import {
+  DEFAULT_SIZE,
+  ID_PLACEHOLDER,
+  type IconOptions,
+  getA11yAttributes,
+  getPaint,
+  iconMarkup,
+  paletteVariables,
+  pickVariantSize,
+  scopeIds,
+} from "../iconRendering";
+
+export type { IconOptions };
+
+/**
+ * Props of every Vue icon. Other attributes (class, style, aria-label,
+ * listeners) fall through to the root <svg>.
+ */
+export const iconProps = {
+  size: [Number, String] as PropType<number | string>,
+  color: String,
+  /** Fill of fill-based icons (defaults to `color`) */
+  fill: String,
+  strokeWidth: [Number, String] as PropType<number | string>,
+  /**
+   * Keep the stroke width constant in screen pixels regardless of `size`
+   * (stroke-based icons only)
+   */
+  absoluteStrokeWidth: Boolean,
+  /** Accessible name, rendered as <title> and wired to aria-labelledby */
+  title: String,
+  /**
+   * Colors overriding a multicolor icon's palette, in palette order
+   * (`--icon-color-1`, `--icon-color-2`, ...). Undefined entries keep the
+   * original color.
+   */
+  palette: Array as PropType<(string | undefined)[]>,
+};
+
+/** Type of every generated Vue icon */
+export type IconComponent = DefineComponent<typeof iconProps>;
+
+let idCounter = 0;
+
+/**
+ * Stable unique id per component instance. useId is SSR-safe but needs an
+ * app; components rendered outside one fall back to a module counter.
+ */
+function useIconId(): string {
+  return useId() ?? `icon-${++idCounter}`;
+}
+
+export function createIcon(
+  name: string,
+  svgContent: string,
+  isMulticolor: boolean,
+  viewBox: string = "0 0 24 24",
+  options: IconOptions = {},
+): IconComponent {
+  const hasIds = svgContent.includes(ID_PLACEHOLDER);
+
+  return defineComponent({
+    name,
+    props: iconProps,
+    setup(props, { attrs }) {
+      const instanceId = useIconId();
+
+      return () => {
+        const size = props.size ?? DEFAULT_SIZE;
+        const { titleId, a11yProps } = getA11yAttributes(
+          instanceId,
+          props.title,
+          Boolean(attrs["aria-label"] || attrs["aria-labelledby"]),
+          "auto",
+        );
+        const content = hasIds ? scopeIds(svgContent, instanceId) : svgContent;
+        const { fill, stroke, strokeWidth } = getPaint(
+          isMulticolor,
+          viewBox,
+          options,
+          {
+            size,
+            color: props.color ?? "currentColor",
+            fill: props.fill,
+            strokeWidth: props.strokeWidth,
+            absoluteStrokeWidth: props.absoluteStrokeWidth,
+          },
+        );
+
+        return h("svg", {
+          width: size,
+          height: size,
+          viewBox,
+          fill,
+          stroke,
+          "stroke-width": strokeWidth,
+          xmlns: "http://www.w3.org/2000/svg",
+          ...a11yProps,
+          ...(isMulticolor &&
+            props.palette && { style: paletteVariables(props.palette) }),
+          innerHTML: iconMarkup(content, titleId, props.title),
+        });
+      };
+    },
+  });
+}
+
+export function createSizedIcon(
+  name: string,
+  variants: Record<number, IconComponent>,
+): IconComponent {
+  const sizes = Object.keys(variants)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  return defineComponent({
+    name,
+    props: iconProps,
+    setup(props) {
+      return () =>
+        h(variants[pickVariantSize(sizes, props.size ?? DEFAULT_SIZE)], props);
+    },
+  });
+}
+
+/**
+ * Old name of a renamed icon. Renders `Icon`, and outside production warns
+ * once, on first render, that `name` should be replaced by `replacement`.
+ * `process.env.NODE_ENV` is left bare for bundlers to replace, so the warning
+ * is dropped from production bundles.
+ */
+export function createDeprecatedIcon(
+  name: string,
+  replacement: string,
+  Icon: IconComponent,
+): IconComponent {
+  let warned = false;
+
+  return defineComponent({
+    name,
+    props: iconProps,
+    setup(props) {
+      return () => {
+        if (process.env.NODE_ENV !== "production" && !warned) {
+          warned = true;
+          console.warn(
+            `infotravel-icons: ${name} is deprecated and will be removed in the next major version, use ${replacement} instead.`,
+          );
+        }
+        return h(Icon, props);
+      };
+    },
+  });
+}
@@ -1,13 +1,79 @@
+import fs from 'fs';
+import path from 'path';
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['esm', 'cjs'],
-  dts: true,
-  splitting: false,
-  sourcemap: true,
-  clean: false,  // Don't clean dist to preserve CSS files
-  treeshake: true,
-  external: ['react'],
-  outDir: 'dist',
-});
+// Every generated icon is also its own entry (infotravel-icons/icons/Wifi24px)
+// for consumers that cannot tree-shake the barrel
+const iconNames = fs
+  .readdirSync('src/icons')
+  .filter((file) => file.endsWith('.tsx'))
+  .map((file) => path.basename(file, '.tsx'));
+
+// Outputs of removed icons would otherwise stay exported, as dist is not cleaned
+fs.rmSync('dist/icons', { recursive: true, force: true });
+
+/**
+ * Bundlers and test runners that ignore the `exports` map (webpack 4, Jest
+ * before 28) resolve infotravel-icons/icons/Wifi24px to a folder, so each
+ * icon gets an icons/<Name>/package.json pointing into dist
+ */
+function writeIconProxies() {
+  fs.rmSync('icons', { recursive: true, force: true });
+  for (const name of iconNames) {
+    fs.mkdirSync(`icons/${name}`, { recursive: true });
+    fs.writeFileSync(
+      `icons/${name}/package.json`,
+      JSON.stringify(
+        {
+          main: `../../dist/icons/${name}.js`,
+          module: `../../dist/icons/${name}.mjs`,
+          types: `../../dist/icons/${name}.d.ts`,
+          sideEffects: false,
+        },
+        null,
+        2,
+      ) + '\n',
+    );
+  }
+}
+
+export default defineConfig([
+  {
+    entry: {
+      index: 'src/index.ts',
+      'vue/index': 'src/vue/index.ts',
+      'native/index': 'src/native/index.ts',
+      ...Object.fromEntries(
+        iconNames.map((name) => [`icons/${name}`, `src/icons/${name}.tsx`]),
+      ),
+    },
+    format: ['esm', 'cjs'],
+    dts: true,
+    // Both formats are code-split: ESM so DynamicIcon's import() loads icons
+    // lazily, and both so the barrel and per-icon entries share one copy of
+    // createIcon and IconContext
+    splitting: true,
+    sourcemap: true,
+    clean: false, // Don't clean dist to preserve CSS files
+    treeshake: true,
+    external: ['react', 'vue', 'react-native-svg'],
+    outDir: 'dist',
+    onSuccess: async () => writeIconProxies(),
+  },
+  // buildIcons for other icon packs (infotravel-icons/build) and the
+  // infotravel-icons bin, run by Node; svgo and prettier stay dependencies
+  // instead of being bundled
+  {
+    entry: { build: 'scripts/build-icons.ts', cli: 'scripts/cli.ts' },
+    format: ['esm'],
+    platform: 'node',
+    target: 'node18',
+    dts: {
+      entry: { build: 'scripts/build-icons.ts' },
+      compilerOptions: { rootDir: '.', lib: ['ES2022'], types: ['node'] },
+    },
+    sourcemap: true,
+    clean: false,
+    outDir: 'dist',
+  },
+]);